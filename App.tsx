@@ -6,33 +6,77 @@ import { Friends } from './components/Friends/Friends';
 import { Chat } from './components/Chat/Chat';
 import { Profile } from './components/Profile/Profile';
 import { AdminPanel } from './components/Admin/AdminPanel';
-import { StorageService } from './services/storage';
-import { User, ViewState } from './types';
+import { Notifications } from './components/Notifications/Notifications';
+import { StorageService, SetupMode } from './services/storage';
+import { useRoute, navigate } from './services/router';
+import { otherParticipantId } from './services/conversations';
+import { can } from './services/permissions';
+import { User, Conversation, ViewState } from './types';
+
+// Route params may carry a custom User ID (shareable) or an internal UUID
+const resolveUserRef = async (ref: string): Promise<User | undefined> =>
+  (await StorageService.getUser(ref)) || (await StorageService.findUserByCustomId(ref));
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
-  const [view, setView] = useState<ViewState>('login');
   const [isLoading, setIsLoading] = useState(true);
+  // No admin yet: signed-out visitors are offered to create or claim one (undefined until checked)
+  const [setupMode, setSetupMode] = useState<SetupMode | null | undefined>(undefined);
   
-  // Navigation State
-  const [viewedProfileId, setViewedProfileId] = useState<string | null>(null);
-  const [chatTargetId, setChatTargetId] = useState<string | null>(null);
+  // Navigation State (lives in the URL)
+  const route = useRoute();
+  const view: ViewState = route?.view || 'feed';
+  const [routeUser, setRouteUser] = useState<{ ref: string; id: string | null } | null>(null);
 
   useEffect(() => {
     const unsubscribe = StorageService.observeAuth((authUser) => {
-      if (authUser) {
-        setUser(authUser);
-        if (view === 'login') setView('feed');
-      } else {
-        setUser(null);
-        setView('login');
-      }
+      setUser(authUser);
       setIsLoading(false);
     });
 
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => StorageService.observeSetup(setSetupMode), []);
+
+  // Delivery receipts and presence heartbeats are sent from whichever screen is open
+  useEffect(() => {
+    if (!user) return;
+    const stopDeliveries = StorageService.acknowledgeDeliveries(user.id);
+    const stopPresence = StorageService.trackPresence(user.id);
+    return () => {
+      stopDeliveries();
+      stopPresence();
+    };
+  }, [user?.id]);
+
+  // Resolve /u/:userId and /messages/:userId to a user UUID
+  useEffect(() => {
+    const ref = route?.userRef;
+    if (!ref || !user) return;
+    let cancelled = false;
+    resolveUserRef(ref).then(found => {
+      if (!cancelled) setRouteUser({ ref, id: found?.id || null });
+    });
+    return () => { cancelled = true; };
+  }, [route?.userRef, user?.id]);
+
+  // Route guards: signed-in users skip the auth pages, unknown paths land on the feed, and /admin
+  // is only for moderators and admins. Signed-out users see Auth on any path and land there after login.
+  useEffect(() => {
+    if (isLoading || !user) return;
+    if (!route || route.view === 'login' || route.view === 'signup' || (route.view === 'admin' && !can(user, 'access_admin'))) {
+      navigate({ view: 'feed' }, { replace: true });
+    }
+  }, [route, user, isLoading]);
+
+  // Keep my own profile URL pointing at my current User ID after I change it
+  useEffect(() => {
+    if (user && route?.view === 'profile' && routeUser?.id === user.id && route.userRef === routeUser.ref && route.userRef !== user.userId) {
+      navigate({ view: 'profile', userRef: user.userId }, { replace: true });
+    }
+  }, [user?.userId, routeUser, route]);
+
   const refreshUser = async () => {
       if (user) {
           const freshUser = await StorageService.getUser(user.id);
@@ -42,26 +86,54 @@ const App: React.FC = () => {
 
   const handleLogin = (loggedInUser: User) => {
     setUser(loggedInUser);
-    setView('feed');
+    if (route?.view === 'login' || route?.view === 'signup') navigate({ view: 'feed' }, { replace: true });
   };
 
   const handleLogout = () => {
+    navigate({ view: 'login' }, { replace: true });
     StorageService.logout();
-    setViewedProfileId(null);
-    setChatTargetId(null);
   };
 
-  const handleViewProfile = (userId: string) => {
-    setViewedProfileId(userId);
-    setView('profile');
+  const userRefFor = async (userId: string) => {
+    const target = userId === user?.id ? user : await StorageService.getUser(userId);
+    return target?.userId || userId;
+  };
+
+  const handleViewProfile = async (userId: string) => {
+    navigate({ view: 'profile', userRef: await userRefFor(userId) });
+  };
+
+  const handleStartChat = async (userId: string) => {
+    navigate({ view: 'messages', userRef: await userRefFor(userId) });
   };
 
-  const handleStartChat = (userId: string) => {
-    setChatTargetId(userId);
-    setView('messages');
+  // Direct chats are addressed by the other person (/messages/:userId), groups by id
+  const handleSelectConversation = async (conversation: Conversation | null) => {
+    if (!conversation || !user) return navigate({ view: 'messages' });
+    if (conversation.isGroup) return navigate({ view: 'messages', conversationId: conversation.id });
+    navigate({ view: 'messages', userRef: await userRefFor(otherParticipantId(conversation, user.id)) });
   };
 
-  if (isLoading) {
+  const handleOpenConversation = async (conversationId: string) => {
+    const conversation = await StorageService.getConversation(conversationId);
+    if (conversation) handleSelectConversation(conversation);
+    else navigate({ view: 'messages' });
+  };
+
+  const handleViewPost = (postId: string) => {
+    navigate({ view: 'feed', postId });
+  };
+
+  const handleSetView = (v: ViewState) => {
+    // Sidebar "My Profile" goes to my own profile
+    navigate(v === 'profile' && user ? { view: 'profile', userRef: user.userId } : { view: v });
+  };
+
+  // UUID for the current route's user param, once resolved (null while loading or not found)
+  const routeUserId = route?.userRef && routeUser?.ref === route.userRef ? routeUser.id : null;
+  const isResolvingRouteUser = !!route?.userRef && routeUser?.ref !== route.userRef;
+
+  if (isLoading || setupMode === undefined) {
     return (
       <div className="h-screen w-screen bg-[#0f172a] flex items-center justify-center relative overflow-hidden">
         <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-neon-purple/20 via-[#0f172a] to-[#0f172a]"></div>
@@ -77,7 +149,9 @@ const App: React.FC = () => {
   }
 
   if (!user) {
-    return <Auth onLogin={handleLogin} />;
+    const authMode = setupMode || (route?.view === 'signup' ? 'signup' : 'login');
+    // Keyed so the form switches when another tab finishes setup
+    return <Auth key={authMode} onLogin={handleLogin} initialMode={authMode} />;
   }
 
   return (
@@ -85,11 +159,7 @@ const App: React.FC = () => {
       <Sidebar 
         currentUser={user} 
         currentView={view} 
-        setView={(v) => {
-          setView(v);
-          if (v === 'profile') setViewedProfileId(user.id); // Default to my profile
-          if (v !== 'messages') setChatTargetId(null);
-        }} 
+        setView={handleSetView} 
         onLogout={handleLogout} 
       />
 
@@ -100,11 +170,35 @@ const App: React.FC = () => {
             <div className="absolute bottom-[-10%] left-[-10%] w-[500px] h-[500px] bg-neon-blue/20 rounded-full blur-[100px] opacity-50 animate-pulse-slow" style={{animationDelay: '1.5s'}}></div>
         </div>
 
+        {user.deletionScheduledFor && (
+          <div className="sticky top-0 z-40 bg-red-500/20 border-b border-red-500/30 backdrop-blur-md px-6 py-3 flex items-center justify-between gap-4 text-sm">
+            <span className="text-red-200">
+              Your account is scheduled for deletion on {new Date(user.deletionScheduledFor).toLocaleDateString()}.
+            </span>
+            <button
+              onClick={() => StorageService.cancelAccountDeletion(user.id)}
+              className="px-4 py-1.5 rounded-lg bg-white/10 text-white font-bold hover:bg-white/20 shrink-0"
+            >
+              Keep my account
+            </button>
+          </div>
+        )}
+
         {view === 'feed' && (
           <Feed 
             currentUser={user} 
             onNavigateToProfile={handleViewProfile} 
             onRefresh={refreshUser}
+            focusedPostId={route?.postId || null}
+          />
+        )}
+
+        {view === 'notifications' && (
+          <Notifications
+            currentUser={user}
+            onNavigateToProfile={handleViewProfile}
+            onNavigateToConversation={handleOpenConversation}
+            onNavigateToPost={handleViewPost}
           />
         )}
         
@@ -120,21 +214,27 @@ const App: React.FC = () => {
         {view === 'messages' && (
           <Chat 
             currentUser={user} 
-            initialChatUserId={chatTargetId}
+            initialChatUserId={routeUserId}
+            initialConversationId={route?.conversationId || null}
+            onSelectConversation={handleSelectConversation}
             onRefresh={refreshUser}
           />
         )}
         
-        {view === 'profile' && (
+        {view === 'profile' && routeUserId && (
           <Profile 
             currentUser={user} 
-            viewedProfileId={viewedProfileId || user.id}
+            viewedProfileId={routeUserId}
             onNavigateToChat={handleStartChat}
             onRefresh={refreshUser}
           />
         )}
+
+        {view === 'profile' && !routeUserId && (
+          <div className="p-10 text-center">{isResolvingRouteUser ? 'Loading Profile...' : 'User not found.'}</div>
+        )}
         
-        {view === 'admin' && user.isAdmin && <AdminPanel />}
+        {view === 'admin' && can(user, 'access_admin') && <AdminPanel currentUser={user} />}
       </main>
     </div>
   );
@@ -1,45 +1,127 @@
 import React, { useState, useEffect } from 'react';
-import { Trash2, Shield, Activity } from 'lucide-react';
-import { User, Post } from '../../types';
+import { Trash2, Shield, Activity, EyeOff, Eye, Flag, ScrollText, LayoutGrid, BarChart3, DatabaseBackup } from 'lucide-react';
+import { User, Post, Report, Role } from '../../types';
 import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { SUSPENSION_OPTIONS, isSuspended } from '../../services/moderation';
+import { ROLES, ROLE_LABELS, can, outranks, roleOf } from '../../services/permissions';
+import { ReportQueue } from './ReportQueue';
+import { AuditLog } from './AuditLog';
+import { Analytics } from './Analytics';
+import { Backup } from './Backup';
 
-export const AdminPanel: React.FC = () => {
+const POSTS_PAGE_SIZE = 20;
+
+type AdminTab = 'overview' | 'analytics' | 'reports' | 'audit' | 'backup';
+
+// Asks why, for the audit log. null when the admin cancels.
+const askReason = (question: string) => {
+  const answer = prompt(`${question}\nReason (recorded in the audit log):`);
+  return answer === null ? null : answer.trim() || undefined;
+};
+
+export const AdminPanel: React.FC<{ currentUser: User }> = ({ currentUser }) => {
+  const [tab, setTab] = useState<AdminTab>('overview');
   const [users, setUsers] = useState<User[]>([]);
   const [posts, setPosts] = useState<Post[]>([]);
+  const [postCount, setPostCount] = useState(0);
+  const [openReports, setOpenReports] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMorePosts, setHasMorePosts] = useState(false);
+  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [notice, setNotice] = useState('');
 
   useEffect(() => {
-      // Subscribe or fetch once? Fetch once for admin efficiency.
+      // Fetch once for admin efficiency; posts come a page at a time
       const load = async () => {
           setIsLoading(true);
-          const u = await StorageService.getAllUsers();
-          // For posts, we don't have a getAllPosts efficient method in service yet exposed (Feed subscribes).
-          // We'll simulate by subscribing briefly or add method. 
-          // Reusing subscribeToPosts but it only gets 50. 
-          // For full admin, we need a different query. For now, use what we have.
-          const unsub = StorageService.subscribeToPosts((p) => setPosts(p));
+          const [u, page, count] = await Promise.all([
+              StorageService.getAllUsers(),
+              StorageService.getPosts({ limit: POSTS_PAGE_SIZE }),
+              StorageService.countPosts()
+          ]);
           setUsers(u);
+          setPosts(page.posts);
+          setNextCursor(page.nextCursor);
+          setHasMorePosts(page.hasMore);
+          setPostCount(count);
           setIsLoading(false);
-          return unsub;
       };
       load();
   }, []);
 
-  const deleteUser = async (id: string) => {
-    if (confirm('Are you sure? This action cannot be undone.')) {
-        await StorageService.deleteUser(id);
-        // refresh
-        const u = await StorageService.getAllUsers();
-        setUsers(u);
-    }
+  useEffect(() => StorageService.subscribeToReports(currentUser.id, (reports: Report[]) => {
+      setOpenReports(reports.filter(r => r.status === 'open').length);
+  }), [currentUser.id]);
+
+  const usersById = Object.fromEntries(users.map(u => [u.id, u]));
+
+  const reloadUsers = async () => setUsers(await StorageService.getAllUsers());
+
+  const flash = (text: string) => {
+      setNotice(text);
+      setTimeout(() => setNotice(''), 3000);
+  };
+
+  const loadMorePosts = async () => {
+      setIsLoadingPosts(true);
+      const page = await StorageService.getPosts({ cursor: nextCursor, limit: POSTS_PAGE_SIZE });
+      setPosts(prev => [...prev, ...page.posts]);
+      setNextCursor(page.nextCursor);
+      setHasMorePosts(page.hasMore);
+      setIsLoadingPosts(false);
+  };
+
+  const deleteUser = async (user: User) => {
+    const reason = askReason(`Delete ${user.name}? This action cannot be undone.`);
+    if (reason === null) return;
+    const result = await StorageService.deleteUser(currentUser.id, user.id, { reason });
+    flash(result.message);
+    reloadUsers();
+  };
+
+  const suspendUser = async (user: User, option: number) => {
+    const { label, duration } = SUSPENSION_OPTIONS[option];
+    const reason = askReason(duration === undefined ? `Ban ${user.name} permanently?` : `Suspend ${user.name} for ${label}?`);
+    if (reason === null) return;
+    flash((await StorageService.suspendUser(currentUser.id, user.id, duration, { reason })).message);
+    reloadUsers();
+  };
+
+  const changeRole = async (user: User, role: Role) => {
+    const reason = askReason(`Change ${user.name}'s role to ${ROLE_LABELS[role]}?`);
+    if (reason === null) return;
+    flash((await StorageService.setRole(currentUser.id, user.id, role, { reason })).message);
+    reloadUsers();
+  };
+
+  const liftSuspension = async (user: User) => {
+    flash((await StorageService.liftSuspension(currentUser.id, user.id)).message);
+    reloadUsers();
   };
 
-  const deletePost = async (id: string) => {
-      if (confirm('Delete post?')) {
-          await StorageService.deletePost(id);
+  const deletePost = async (post: Post) => {
+      const reason = askReason('Delete post?');
+      if (reason === null) return;
+      const result = await StorageService.removePost(currentUser.id, post.id, { reason });
+      flash(result.message);
+      if (result.success) {
+          setPosts(prev => prev.filter(p => p.id !== post.id));
+          setPostCount(count => count - 1);
       }
   };
 
+  const toggleHidden = async (post: Post) => {
+      const hide = !post.hiddenAt;
+      const reason = hide ? askReason('Hide this post from everyone but its author?') : undefined;
+      if (reason === null) return;
+      const result = await StorageService.setPostHidden(currentUser.id, post.id, hide, { reason });
+      flash(result.message);
+      const updated = await StorageService.getPost(post.id);
+      if (updated) setPosts(prev => prev.map(p => (p.id === post.id ? updated : p)));
+  };
+
   if (isLoading) return <div className="p-10 text-center">Loading Admin Data...</div>;
 
   return (
@@ -49,14 +131,18 @@ export const AdminPanel: React.FC = () => {
           <h1 className="text-3xl font-bold text-white">System Admin Panel</h1>
       </div>
 
-      <div className="grid md:grid-cols-3 gap-6 mb-8">
+      <div className="grid md:grid-cols-4 gap-6 mb-8">
           <div className="glass-card p-6 rounded-xl border-l-4 border-neon-blue">
               <h3 className="text-gray-400 mb-1 flex items-center gap-2"><Activity size={16}/> Total Users</h3>
               <p className="text-4xl font-bold text-white">{users.length}</p>
           </div>
           <div className="glass-card p-6 rounded-xl border-l-4 border-neon-pink">
               <h3 className="text-gray-400 mb-1">Active Posts</h3>
-              <p className="text-4xl font-bold text-white">{posts.length}</p>
+              <p className="text-4xl font-bold text-white">{postCount}</p>
+          </div>
+          <div className="glass-card p-6 rounded-xl border-l-4 border-amber-400 cursor-pointer" onClick={() => setTab('reports')}>
+              <h3 className="text-gray-400 mb-1 flex items-center gap-2"><Flag size={16}/> Open Reports</h3>
+              <p className="text-4xl font-bold text-white">{openReports}</p>
           </div>
           <div className="glass-card p-6 rounded-xl border-l-4 border-neon-cyan">
               <h3 className="text-gray-400 mb-1">Server Status</h3>
@@ -64,6 +150,36 @@ export const AdminPanel: React.FC = () => {
           </div>
       </div>
 
+      <div className="flex gap-2 mb-6 border-b border-white/10">
+          {([
+              ['overview', 'Users & Posts', LayoutGrid, 'access_admin'],
+              ['analytics', 'Analytics', BarChart3, 'view_analytics'],
+              ['reports', 'Reports', Flag, 'review_reports'],
+              ['audit', 'Audit Log', ScrollText, 'view_audit_log'],
+              ['backup', 'Backup', DatabaseBackup, 'manage_backups']
+          ] as const).filter(([, , , permission]) => can(currentUser, permission)).map(([id, label, Icon]) => (
+              <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-4 py-2 -mb-px border-b-2 font-bold flex items-center gap-2 transition-colors ${tab === id ? 'border-neon-purple text-white' : 'border-transparent text-gray-500 hover:text-gray-300'}`}
+              >
+                  <Icon size={16} /> {label}
+                  {id === 'reports' && openReports > 0 && <span className="bg-neon-pink text-white text-xs px-2 py-0.5 rounded-full">{openReports}</span>}
+              </button>
+          ))}
+      </div>
+
+      {notice && <p className="mb-4 text-neon-cyan animate-pulse">{notice}</p>}
+
+      {tab === 'analytics' && can(currentUser, 'view_analytics') && <Analytics adminId={currentUser.id} />}
+
+      {tab === 'reports' && <ReportQueue adminId={currentUser.id} users={usersById} onChanged={reloadUsers} />}
+
+      {tab === 'audit' && can(currentUser, 'view_audit_log') && <AuditLog adminId={currentUser.id} users={usersById} />}
+
+      {tab === 'backup' && can(currentUser, 'manage_backups') && <Backup adminId={currentUser.id} onRestored={reloadUsers} />}
+
+      {tab === 'overview' && (
       <div className="grid lg:grid-cols-2 gap-8">
           {/* Users List */}
           <div className="glass-panel rounded-xl overflow-hidden">
@@ -76,20 +192,61 @@ export const AdminPanel: React.FC = () => {
                           <tr>
                               <th className="p-4">User</th>
                               <th className="p-4">ID</th>
+                              <th className="p-4">Role</th>
                               <th className="p-4">Action</th>
                           </tr>
                       </thead>
                       <tbody>
                           {users.map(user => (
                               <tr key={user.id} className="border-b border-white/5 hover:bg-white/5">
-                                  <td className="p-4 flex items-center gap-3">
-                                      <img src={user.avatar} className="w-8 h-8 rounded-full" />
-                                      {user.name}
+                                  <td className="p-4">
+                                      <div className="flex items-center gap-3">
+                                          <img src={avatarThumbnail(user)} className="w-8 h-8 rounded-full" />
+                                          <div>
+                                              {user.name}
+                                              {isSuspended(user) && (
+                                                  <p className="text-xs text-red-400">
+                                                      {user.suspension?.until === undefined ? 'Banned' : `Suspended until ${new Date(user.suspension.until).toLocaleDateString()}`}
+                                                  </p>
+                                              )}
+                                          </div>
+                                      </div>
                                   </td>
                                   <td className="p-4 font-mono text-neon-cyan">{user.userId}</td>
                                   <td className="p-4">
-                                      {!user.isAdmin && (
-                                          <button onClick={() => deleteUser(user.id)} className="text-red-400 hover:text-red-300"><Trash2 size={18}/></button>
+                                      {can(currentUser, 'manage_roles') && user.id !== currentUser.id ? (
+                                          <select
+                                              value={roleOf(user)}
+                                              onChange={(e) => changeRole(user, e.target.value as Role)}
+                                              className="bg-black/30 border border-white/10 rounded-lg px-1 py-0.5 text-xs text-gray-300 outline-none"
+                                              title="Change role"
+                                          >
+                                              {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                          </select>
+                                      ) : (
+                                          <span className="text-xs text-gray-400">{ROLE_LABELS[roleOf(user)]}</span>
+                                      )}
+                                  </td>
+                                  <td className="p-4">
+                                      {outranks(currentUser, user) && (
+                                          <div className="flex items-center gap-3">
+                                              {isSuspended(user) ? (
+                                                  <button onClick={() => liftSuspension(user)} className="text-xs text-green-400 hover:text-green-300">Lift</button>
+                                              ) : (
+                                                  <select
+                                                      value=""
+                                                      onChange={(e) => suspendUser(user, Number(e.target.value))}
+                                                      className="bg-black/30 border border-white/10 rounded-lg px-1 py-0.5 text-xs text-gray-300 outline-none"
+                                                      title="Suspend or ban"
+                                                  >
+                                                      <option value="" disabled>Suspend…</option>
+                                                      {SUSPENSION_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+                                                  </select>
+                                              )}
+                                              {can(currentUser, 'delete_users') && (
+                                                  <button onClick={() => deleteUser(user)} className="text-red-400 hover:text-red-300"><Trash2 size={18}/></button>
+                                              )}
+                                          </div>
                                       )}
                                   </td>
                               </tr>
@@ -106,17 +263,35 @@ export const AdminPanel: React.FC = () => {
               </div>
               <div className="max-h-[400px] overflow-y-auto">
                  {posts.map(post => (
-                     <div key={post.id} className="p-4 border-b border-white/5 flex justify-between gap-4 hover:bg-white/5">
+                     <div key={post.id} className={`p-4 border-b border-white/5 flex justify-between gap-4 hover:bg-white/5 ${post.hiddenAt ? 'opacity-60' : ''}`}>
                          <div>
                              <p className="text-gray-300 text-sm line-clamp-2">{post.content}</p>
-                             <p className="text-xs text-gray-500 mt-1">ID: {post.id}</p>
+                             <p className="text-xs text-gray-500 mt-1">
+                                 ID: {post.id}
+                                 {post.hiddenAt && <span className="ml-2 text-amber-400">Hidden{post.hiddenReason && `: ${post.hiddenReason}`}</span>}
+                             </p>
+                         </div>
+                         <div className="flex gap-3 self-start">
+                             <button onClick={() => toggleHidden(post)} className="text-amber-400 hover:text-amber-300" title={post.hiddenAt ? 'Restore post' : 'Hide post'}>
+                                 {post.hiddenAt ? <Eye size={18}/> : <EyeOff size={18}/>}
+                             </button>
+                             <button onClick={() => deletePost(post)} className="text-red-400 hover:text-red-300" title="Delete post"><Trash2 size={18}/></button>
                          </div>
-                         <button onClick={() => deletePost(post.id)} className="text-red-400 hover:text-red-300 self-start"><Trash2 size={18}/></button>
                      </div>
                  ))}
+                 {hasMorePosts && (
+                     <button
+                         onClick={loadMorePosts}
+                         disabled={isLoadingPosts}
+                         className="w-full p-3 text-sm text-neon-cyan hover:bg-white/5 disabled:opacity-50"
+                     >
+                         {isLoadingPosts ? 'Loading...' : 'Load more'}
+                     </button>
+                 )}
               </div>
           </div>
       </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, Download } from 'lucide-react';
+import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { AnalyticsReport, StatKey, STAT_LABELS, addDays, dayKey, dayStart, toCsv } from '../../services/analytics';
+import { TimeSeriesChart } from './Charts';
+
+const PRESETS = [7, 30, 90];
+
+// SVG needs real colors: the neon palette from index.html plus Tailwind's amber-400 and green-400
+const STAT_COLORS: Record<StatKey, string> = {
+  activeUsers: '#06b6d4',
+  signups: '#4ade80',
+  posts: '#f472b6',
+  comments: '#a855f7',
+  likes: '#fbbf24',
+  messages: '#3b82f6'
+};
+
+const shortDate = (day: string) =>
+  new Date(dayStart(day)).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Daily activity, signups and content for a date range, with the numbers downloadable as CSV
+export const Analytics: React.FC<{ adminId: string }> = ({ adminId }) => {
+  const today = dayKey(Date.now());
+  const [from, setFrom] = useState(addDays(today, -29));
+  const [to, setTo] = useState(today);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+    let cancelled = false;
+    setIsLoading(true);
+    StorageService.getAnalytics(adminId, { from, to }).then(result => {
+      if (cancelled) return;
+      setReport(result || null);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [adminId, from, to]);
+
+  const applyPreset = (days: number) => {
+    setFrom(addDays(today, -(days - 1)));
+    setTo(today);
+  };
+
+  const downloadCsv = () => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([toCsv(report.days)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `neobook-stats-${report.range.from}-to-${report.range.to}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const labels = report?.days.map(d => shortDate(d.day)) || [];
+  const seriesOf = (key: StatKey) => ({ label: STAT_LABELS[key], color: STAT_COLORS[key], values: report?.days.map(d => d[key]) || [] });
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel rounded-xl p-4 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-bold text-lg text-white flex items-center gap-2"><BarChart3 size={18} /> Analytics</h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => applyPreset(days)}
+              className={`px-3 py-1 rounded-lg ${to === today && from === addDays(today, -(days - 1)) ? 'bg-neon-purple text-white' : 'text-gray-400 hover:bg-white/10'}`}
+            >
+              {days} days
+            </button>
+          ))}
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-300 outline-none [color-scheme:dark]"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            max={today}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-gray-300 outline-none [color-scheme:dark]"
+          />
+          <button
+            onClick={downloadCsv}
+            disabled={!report}
+            className="px-3 py-1 rounded-lg bg-white/10 text-gray-300 hover:bg-white/20 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Download size={14} /> CSV
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !report && <div className="p-10 text-center text-gray-500">Crunching numbers...</div>}
+      {!isLoading && !report && <div className="p-10 text-center text-gray-500">Only admins can see analytics.</div>}
+
+      {report && (
+        <div className={`space-y-6 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {(Object.keys(STAT_LABELS) as StatKey[]).map(key => (
+              <div key={key} className="glass-card p-4 rounded-xl border-l-4" style={{ borderColor: STAT_COLORS[key] }}>
+                <h4 className="text-xs text-gray-400 mb-1">{key === 'activeUsers' ? 'Unique active users' : STAT_LABELS[key]}</h4>
+                <p className="text-2xl font-bold text-white">{report.totals[key]}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="glass-panel rounded-xl p-4">
+              <h4 className="font-bold text-white mb-3">Daily active users</h4>
+              <TimeSeriesChart labels={labels} series={[seriesOf('activeUsers')]} />
+            </div>
+            <div className="glass-panel rounded-xl p-4">
+              <h4 className="font-bold text-white mb-3">Signups per day</h4>
+              <TimeSeriesChart labels={labels} series={[seriesOf('signups')]} kind="bar" />
+            </div>
+          </div>
+
+          <div className="glass-panel rounded-xl p-4">
+            <h4 className="font-bold text-white mb-3">Content per day</h4>
+            <TimeSeriesChart labels={labels} series={[seriesOf('posts'), seriesOf('comments'), seriesOf('likes'), seriesOf('messages')]} />
+          </div>
+
+          <div className="glass-panel rounded-xl overflow-hidden">
+            <div className="bg-white/5 p-4 border-b border-white/10">
+              <h4 className="font-bold text-white">Top posters</h4>
+            </div>
+            <table className="w-full text-left text-sm text-gray-300">
+              <thead className="bg-black/20 text-gray-400 uppercase text-xs">
+                <tr>
+                  <th className="p-4">User</th>
+                  <th className="p-4">Posts</th>
+                  <th className="p-4">Likes received</th>
+                  <th className="p-4">Comments received</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.topPosters.map(({ user, posts, likes, comments }) => (
+                  <tr key={user.id} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="p-4">
+                      <div className="flex items-center gap-3">
+                        <img src={avatarThumbnail(user)} className="w-8 h-8 rounded-full" />
+                        <span>{user.name} <span className="text-gray-500">@{user.userId}</span></span>
+                      </div>
+                    </td>
+                    <td className="p-4 font-bold text-white">{posts}</td>
+                    <td className="p-4">{likes}</td>
+                    <td className="p-4">{comments}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.topPosters.length === 0 && <p className="p-8 text-center text-gray-500">No posts in this range.</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, Search } from 'lucide-react';
+import { User, AuditAction, AuditEntry } from '../../types';
+import { StorageService } from '../../services/storage';
+import { AUDIT_ACTION_LABELS } from '../../services/moderation';
+
+// Read-only view of every moderator and admin action, filterable by action, actor and text
+export const AuditLog: React.FC<{ adminId: string; users: Record<string, User> }> = ({ adminId, users }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [actorId, setActorId] = useState('all');
+  const [query, setQuery] = useState('');
+
+  useEffect(() => StorageService.subscribeToAuditLog(adminId, setEntries), [adminId]);
+
+  const actors = Array.from(new Set<string>(entries.map(e => e.actorId)));
+  const text = query.trim().toLowerCase();
+  const shown = entries.filter(e =>
+    (action === 'all' || e.action === action) &&
+    (actorId === 'all' || e.actorId === actorId) &&
+    (!text || `${e.targetLabel} ${e.details || ''} ${e.reason || ''} ${e.target.id}`.toLowerCase().includes(text))
+  );
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="bg-white/5 p-4 border-b border-white/10 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="font-bold text-lg text-white flex items-center gap-2"><ScrollText size={18} /> Audit Log</h3>
+        <div className="flex flex-wrap gap-2">
+          <div className="relative">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              className="bg-black/30 border border-white/10 rounded-lg pl-7 pr-2 py-1 text-xs text-white outline-none focus:border-neon-purple"
+              placeholder="Search target or reason"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | 'all')}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300 outline-none"
+          >
+            <option value="all">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300 outline-none"
+          >
+            <option value="all">All staff</option>
+            {actors.map(id => <option key={id} value={id}>{users[id]?.name || id}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left text-sm text-gray-300">
+          <thead className="bg-black/20 text-gray-400 uppercase text-xs">
+            <tr>
+              <th className="p-4">When</th>
+              <th className="p-4">By</th>
+              <th className="p-4">Action</th>
+              <th className="p-4">Target</th>
+              <th className="p-4">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(entry => (
+              <tr key={entry.id} className="border-b border-white/5 hover:bg-white/5 align-top">
+                <td className="p-4 text-xs text-gray-500 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                <td className="p-4">{users[entry.actorId]?.name || entry.actorId}</td>
+                <td className="p-4 text-neon-cyan whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action]}</td>
+                <td className="p-4">
+                  <span className="text-xs text-gray-500 uppercase mr-2">{entry.target.type}</span>
+                  {entry.targetLabel}
+                  {entry.details && <p className="text-xs text-gray-500 mt-1">{entry.details}</p>}
+                </td>
+                <td className="p-4 text-gray-400">{entry.reason || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {shown.length === 0 && <p className="p-8 text-center text-gray-500">No matching entries.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { DatabaseBackup, Download, Upload, AlertTriangle } from 'lucide-react';
+import { StorageService } from '../../services/storage';
+import { Backup as BackupFile, RestoreMode, RestoreReport, archiveFileName, downloadJson, validateBackup } from '../../services/archive';
+
+const MAX_CONFLICTS_SHOWN = 100;
+
+// Full backup download, and restore: the file is validated and dry-run first, so the admin sees
+// what would be added and what conflicts before anything is written
+export const Backup: React.FC<{ adminId: string; onRestored: () => void }> = ({ adminId, onRestored }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<RestoreReport | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('skip');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [result, setResult] = useState<RestoreReport | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const file = await StorageService.exportBackup(adminId);
+      if (file) downloadJson(file, archiveFileName('backup', 'full', file.exportedAt));
+      else alert("You don't have permission to do that.");
+    } catch (e) {
+      console.error(e);
+      alert('Backup failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const check = async (file: BackupFile, restoreMode: RestoreMode) => {
+    setPreview(await StorageService.restoreBackup(adminId, file, restoreMode, true));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setBackup(null);
+    setPreview(null);
+    setResult(null);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors(['The file is not valid JSON.']);
+      return;
+    }
+    const validation = validateBackup(parsed);
+    setErrors(validation.errors);
+    if (!validation.backup) return;
+    setBackup(validation.backup);
+    await check(validation.backup, mode);
+  };
+
+  const handleMode = (next: RestoreMode) => {
+    setMode(next);
+    if (backup) check(backup, next);
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !preview) return;
+    const warning = mode === 'overwrite' && preview.replaced > 0
+      ? `\n${preview.replaced} stored records will be replaced by the backup's version.`
+      : '';
+    if (!confirm(`Restore ${fileName}?${warning}`)) return;
+    setIsRestoring(true);
+    const report = await StorageService.restoreBackup(adminId, backup, mode);
+    setIsRestoring(false);
+    setResult(report);
+    setBackup(null);
+    setPreview(null);
+    onRestored();
+  };
+
+  const shown = result || preview;
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="bg-white/5 p-4 border-b border-white/10">
+        <h3 className="font-bold text-lg text-white flex items-center gap-2"><DatabaseBackup size={18} /> Backup &amp; Restore</h3>
+      </div>
+
+      <div className="p-6 grid md:grid-cols-2 gap-8">
+        <div>
+          <h4 className="font-bold text-white mb-2">Download a backup</h4>
+          <p className="text-sm text-gray-400 mb-4">
+            Every user, post, conversation, message, notification, report and audit entry, with uploaded images, as one
+            JSON file. It contains password hashes, so keep it somewhere safe.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 rounded-lg bg-neon-purple text-white font-bold hover:bg-neon-purple/80 flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={16} /> {isExporting ? 'Preparing...' : 'Download backup'}
+          </button>
+        </div>
+
+        <div>
+          <h4 className="font-bold text-white mb-2">Restore from a backup</h4>
+          <p className="text-sm text-gray-400 mb-4">
+            Records missing here are added. Records that differ from the stored ones are listed as conflicts before
+            anything is written.
+          </p>
+          <label className="px-4 py-2 rounded-lg bg-white/10 text-gray-200 hover:bg-white/20 inline-flex items-center gap-2 cursor-pointer">
+            <Upload size={16} /> Choose backup file
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+          </label>
+          {fileName && <span className="ml-3 text-xs text-gray-500">{fileName}</span>}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mx-6 mb-6 bg-red-500/10 border border-red-500/40 rounded-lg p-4 text-sm text-red-200">
+          <p className="font-bold flex items-center gap-2 mb-2"><AlertTriangle size={16} /> This file can't be restored</p>
+          <ul className="list-disc ml-5 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {shown && (
+        <div className="mx-6 mb-6 space-y-4">
+          <p className={`text-sm ${shown.success ? 'text-neon-cyan' : 'text-red-400'}`}>{shown.message}</p>
+
+          {preview && !result && (
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex gap-1 text-xs">
+                {([['skip', 'Keep stored versions'], ['overwrite', "Use the backup's versions"]] as const).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => handleMode(id)}
+                    className={`px-3 py-1 rounded-lg ${mode === id ? 'bg-neon-purple text-white' : 'text-gray-400 hover:bg-white/10'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring || !preview.success}
+                className="px-4 py-2 rounded-lg bg-green-500/20 text-green-400 font-bold hover:bg-green-500/30 disabled:opacity-50"
+              >
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          )}
+
+          {shown.conflicts.length > 0 && (
+            <div className="max-h-[400px] overflow-y-auto border border-white/10 rounded-lg">
+              <table className="w-full text-left text-sm text-gray-300">
+                <thead className="bg-black/20 text-gray-400 uppercase text-xs">
+                  <tr>
+                    <th className="p-3">Collection</th>
+                    <th className="p-3">Record</th>
+                    <th className="p-3">Conflict</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map(conflict => (
+                    <tr key={`${conflict.collection}:${conflict.id}`} className="border-b border-white/5">
+                      <td className="p-3 text-xs text-gray-500 uppercase">{conflict.collection}</td>
+                      <td className="p-3">{conflict.label}</td>
+                      <td className="p-3 text-amber-300">{conflict.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {shown.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                <p className="p-3 text-xs text-gray-500">…and {shown.conflicts.length - MAX_CONFLICTS_SHOWN} more.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+
+// Plain SVG charts for the analytics dashboard. The viewBox scales with the container;
+// hovering a point or bar shows its value through the native <title> tooltip.
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[]; // One per label
+}
+
+interface TimeSeriesChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  kind?: 'line' | 'bar';
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 40 };
+const GRID_LINES = 4;
+const MAX_X_LABELS = 8;
+
+// Rounds the top of the y axis up to 1, 2 or 5 times a power of ten so gridlines land on round numbers
+const niceMax = (value: number) => {
+  if (value <= GRID_LINES) return GRID_LINES;
+  const step = value / GRID_LINES;
+  const magnitude = 10 ** Math.floor(Math.log10(step));
+  const nice = [1, 2, 5, 10].find(m => m * magnitude >= step)! * magnitude;
+  return nice * GRID_LINES;
+};
+
+export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ labels, series, kind = 'line' }) => {
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const top = niceMax(Math.max(0, ...series.flatMap(s => s.values)));
+  const y = (value: number) => PAD.top + plotHeight - (value / top) * plotHeight;
+  const slot = plotWidth / Math.max(labels.length, 1);
+  // Lines run edge to edge; bars sit in the middle of their slot
+  const x = (i: number) => kind === 'line' && labels.length > 1
+    ? PAD.left + (i / (labels.length - 1)) * plotWidth
+    : PAD.left + slot * (i + 0.5);
+  const labelEvery = Math.ceil(labels.length / MAX_X_LABELS);
+  const barWidth = Math.max(1, (slot * 0.8) / series.length);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+          const value = (top / GRID_LINES) * i;
+          return (
+            <g key={i}>
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} stroke="rgba(255,255,255,0.08)" />
+              <text x={PAD.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{value}</text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, i) => i % labelEvery === 0 && (
+          <text key={label} x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">{label}</text>
+        ))}
+
+        {kind === 'bar' && series.map((s, si) => s.values.map((value, i) => (
+          <rect
+            key={`${s.label}-${i}`}
+            x={x(i) - (barWidth * series.length) / 2 + barWidth * si}
+            y={y(value)}
+            width={barWidth}
+            height={PAD.top + plotHeight - y(value)}
+            fill={s.color}
+            rx={1}
+          >
+            <title>{`${labels[i]}: ${value} ${s.label.toLowerCase()}`}</title>
+          </rect>
+        )))}
+
+        {kind === 'line' && series.map(s => (
+          <g key={s.label}>
+            <polyline
+              points={s.values.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {s.values.map((value, i) => (
+              <circle key={i} cx={x(i)} cy={y(value)} r={labels.length > 60 ? 1.5 : 3} fill={s.color}>
+                <title>{`${labels[i]}: ${value} ${s.label.toLowerCase()}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs text-gray-400">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} /> {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
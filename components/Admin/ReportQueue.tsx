@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { Flag, EyeOff, Trash2, Ban, Check, X } from 'lucide-react';
+import { User, Report, ReportStatus } from '../../types';
+import { StorageService, ModerationContext, ModerationResult } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { REPORT_REASONS, REPORT_TARGET_LABELS, SUSPENSION_OPTIONS } from '../../services/moderation';
+import { can, outranks } from '../../services/permissions';
+
+const STATUS_FILTERS: { id: ReportStatus | 'all'; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'actioned', label: 'Actioned' },
+  { id: 'dismissed', label: 'Dismissed' },
+  { id: 'all', label: 'All' }
+];
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'bg-neon-pink/20 text-neon-pink',
+  actioned: 'bg-green-500/20 text-green-400',
+  dismissed: 'bg-white/10 text-gray-400'
+};
+
+const ReportCard: React.FC<{
+  report: Report;
+  adminId: string;
+  users: Record<string, User>;
+  onDone: (result: ModerationResult) => void;
+}> = ({ report, adminId, users, onDone }) => {
+  const [note, setNote] = useState('');
+  const [suspension, setSuspension] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const reporter = users[report.reporterId];
+  const owner = users[report.targetOwnerId];
+  const actor = users[adminId];
+  const { target } = report;
+
+  const run = async (action: (context: ModerationContext) => Promise<ModerationResult>) => {
+    setIsWorking(true);
+    const result = await action({ reason: note.trim() || REPORT_REASONS[report.reason], reportId: report.id });
+    setIsWorking(false);
+    onDone(result);
+  };
+
+  return (
+    <div className="p-4 border-b border-white/5">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[report.status]}`}>{report.status}</span>
+          <span className="text-xs px-2 py-0.5 rounded-full bg-neon-purple/20 text-neon-purple">{REPORT_TARGET_LABELS[target.type]}</span>
+          <span className="font-bold text-white text-sm">{REPORT_REASONS[report.reason]}</span>
+        </div>
+        <span className="text-xs text-gray-500 shrink-0">{new Date(report.createdAt).toLocaleString()}</span>
+      </div>
+
+      {report.excerpt && <p className="text-sm text-gray-300 bg-black/20 rounded-lg p-3 mb-2 whitespace-pre-wrap">"{report.excerpt}"</p>}
+      {report.details && <p className="text-sm text-gray-400 italic mb-2">Reporter: {report.details}</p>}
+
+      <div className="flex items-center gap-4 text-xs text-gray-400 mb-3">
+        <span className="flex items-center gap-1.5">
+          <img src={avatarThumbnail(owner)} className="w-5 h-5 rounded-full" />
+          {target.type === 'user' ? 'User' : 'By'}: {owner ? `${owner.name} (@${owner.userId})` : 'Deleted user'}
+        </span>
+        <span>Reported by {reporter?.name || 'a deleted user'}</span>
+      </div>
+
+      {report.status === 'open' ? (
+        <>
+          <input
+            className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white mb-3 focus:border-neon-purple outline-none"
+            placeholder={`Note for the audit log (defaults to "${REPORT_REASONS[report.reason]}")`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            {target.type === 'post' && (
+              <>
+                <button
+                  disabled={isWorking}
+                  onClick={() => run(context => StorageService.setPostHidden(adminId, target.id, true, context))}
+                  className="px-3 py-1.5 text-xs rounded-lg bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <EyeOff size={14} /> Hide post
+                </button>
+                <button
+                  disabled={isWorking}
+                  onClick={() => run(context => StorageService.removePost(adminId, target.id, context))}
+                  className="px-3 py-1.5 text-xs rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Trash2 size={14} /> Delete post
+                </button>
+              </>
+            )}
+            {target.type === 'comment' && target.postId && (
+              <button
+                disabled={isWorking}
+                onClick={() => run(context => StorageService.removeComment(adminId, target.postId!, target.id, context))}
+                className="px-3 py-1.5 text-xs rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 flex items-center gap-1 disabled:opacity-50"
+              >
+                <Trash2 size={14} /> Delete comment
+              </button>
+            )}
+            {target.type === 'message' && (
+              <button
+                disabled={isWorking}
+                onClick={() => run(context => StorageService.removeMessage(adminId, target.id, context))}
+                className="px-3 py-1.5 text-xs rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 flex items-center gap-1 disabled:opacity-50"
+              >
+                <Trash2 size={14} /> Delete message
+              </button>
+            )}
+            {owner && actor && can(actor, 'suspend_users') && outranks(actor, owner) && (
+              <div className="flex">
+                <select
+                  value={suspension}
+                  onChange={(e) => setSuspension(Number(e.target.value))}
+                  className="bg-black/30 border border-white/10 rounded-l-lg px-2 text-xs text-gray-300 outline-none"
+                >
+                  {SUSPENSION_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+                </select>
+                <button
+                  disabled={isWorking}
+                  onClick={() => run(context => StorageService.suspendUser(adminId, owner.id, SUSPENSION_OPTIONS[suspension].duration, context))}
+                  className="px-3 py-1.5 text-xs rounded-r-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Ban size={14} /> {SUSPENSION_OPTIONS[suspension].duration === undefined ? 'Ban' : 'Suspend'} {target.type === 'user' ? 'user' : 'author'}
+                </button>
+              </div>
+            )}
+            <button
+              disabled={isWorking}
+              onClick={() => run(context => StorageService.resolveReport(adminId, report.id, 'actioned', context.reason))}
+              className="px-3 py-1.5 text-xs rounded-lg bg-green-500/20 text-green-400 hover:bg-green-500/30 flex items-center gap-1 disabled:opacity-50"
+              title="Close the report; the content was dealt with some other way"
+            >
+              <Check size={14} /> Mark resolved
+            </button>
+            <button
+              disabled={isWorking}
+              onClick={() => run(() => StorageService.resolveReport(adminId, report.id, 'dismissed', note))}
+              className="px-3 py-1.5 text-xs rounded-lg bg-white/10 text-gray-300 hover:bg-white/20 flex items-center gap-1 disabled:opacity-50"
+            >
+              <X size={14} /> Dismiss
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {report.status === 'dismissed' ? 'Dismissed' : 'Actioned'} by {users[report.resolvedBy || '']?.name || 'an admin'}
+          {report.resolvedAt && ` on ${new Date(report.resolvedAt).toLocaleString()}`}
+          {report.resolution && `: ${report.resolution}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface ReportQueueProps {
+  adminId: string;
+  users: Record<string, User>;
+  onChanged: () => void; // A user was suspended or deleted
+}
+
+export const ReportQueue: React.FC<ReportQueueProps> = ({ adminId, users, onChanged }) => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [filter, setFilter] = useState<ReportStatus | 'all'>('open');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => StorageService.subscribeToReports(adminId, setReports), [adminId]);
+
+  const handleDone = (result: ModerationResult) => {
+    setMessage(result.message);
+    setTimeout(() => setMessage(''), 3000);
+    onChanged();
+  };
+
+  const shown = filter === 'all' ? reports : reports.filter(r => r.status === filter);
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="bg-white/5 p-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <h3 className="font-bold text-lg text-white flex items-center gap-2"><Flag size={18} /> Moderation Queue</h3>
+        <div className="flex gap-1">
+          {STATUS_FILTERS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1 text-xs rounded-lg ${filter === id ? 'bg-neon-purple text-white' : 'text-gray-400 hover:bg-white/10'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {message && <p className="px-4 py-2 text-sm text-neon-cyan border-b border-white/5">{message}</p>}
+      <div className="max-h-[600px] overflow-y-auto">
+        {shown.map(report => (
+          <ReportCard key={report.id} report={report} adminId={adminId} users={users} onDone={handleDone} />
+        ))}
+        {shown.length === 0 && <p className="p-8 text-center text-gray-500">No {filter === 'all' ? '' : `${filter} `}reports.</p>}
+      </div>
+    </div>
+  );
+};
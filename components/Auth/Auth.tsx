@@ -1,15 +1,18 @@
 
 import React, { useState } from 'react';
 import { User } from '../../types';
-import { StorageService } from '../../services/storage';
+import { StorageService, AuthError, SetupMode } from '../../services/storage';
 import { Eye, EyeOff, ArrowRight, Sparkles } from 'lucide-react';
 
 interface AuthProps {
   onLogin: (user: User) => void;
+  // 'create' and 'claim' set up the first admin (see StorageService.observeSetup)
+  initialMode?: 'login' | 'signup' | SetupMode;
 }
 
-export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
-  const [isLogin, setIsLogin] = useState(true);
+export const Auth: React.FC<AuthProps> = ({ onLogin, initialMode = 'login' }) => {
+  const [isSetup, setIsSetup] = useState(initialMode === 'create' || initialMode === 'claim');
+  const [isLogin, setIsLogin] = useState(initialMode === 'login' || initialMode === 'claim');
   const [formData, setFormData] = useState({
     userId: '', // Custom User ID
     username: '', // Display Name
@@ -27,7 +30,9 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
     try {
       if (isLogin) {
         // Login Logic
-        const user = await StorageService.login(formData.userId, formData.password);
+        const user = isSetup
+          ? await StorageService.claimAdmin(formData.userId, formData.password)
+          : await StorageService.login(formData.userId, formData.password);
         onLogin(user);
       } else {
         // Signup Logic
@@ -56,22 +61,32 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
           userId: formData.userId,
           username: formData.username, 
           name: formData.username, 
-          password: formData.password,
           avatar: `https://picsum.photos/seed/${formData.userId}/200`,
           coverPhoto: `https://picsum.photos/seed/${formData.userId}/800/300`,
           bio: 'Hello Neo World!',
           joinedAt: Date.now(),
           friends: [],
           friendRequests: [],
-          status: 'online'
+          status: 'online',
+          lastSeen: Date.now()
         };
 
-        const createdUser = await StorageService.signup(newUser, formData.password);
+        const createdUser = isSetup
+          ? await StorageService.createInitialAdmin(newUser, formData.password)
+          : await StorageService.signup(newUser, formData.password);
         onLogin(createdUser);
       }
     } catch (err: any) {
       console.error(err);
-      setError(err.message || 'Authentication failed. Check credentials.');
+      if (err instanceof AuthError) {
+        setError(err.code === 'unknown_user'
+          ? 'Unknown User ID. Check the spelling or create a new account.'
+          : err.code === 'suspended'
+            ? err.message
+            : 'Wrong password. Please try again.');
+      } else {
+        setError(err.message || 'Authentication failed. Check credentials.');
+      }
     } finally {
       setLoading(false);
     }
@@ -92,10 +107,12 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
               <Sparkles className="text-white" size={32} />
             </div>
             <h2 className="text-3xl font-bold text-white tracking-tight mb-1">
-              {isLogin ? 'Welcome Back' : 'Join the Future'}
+              {isSetup ? 'Set Up NEOBOOK' : isLogin ? 'Welcome Back' : 'Join the Future'}
             </h2>
             <p className="text-gray-400">
-              {isLogin ? 'Enter the Neo-Network' : 'Create your digital identity'}
+              {isSetup
+                ? isLogin ? 'Log in to the account that will be the administrator' : 'Create the administrator account'
+                : isLogin ? 'Enter the Neo-Network' : 'Create your digital identity'}
             </p>
           </div>
 
@@ -157,7 +174,7 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
               disabled={loading}
               className="w-full bg-gradient-to-r from-neon-blue to-neon-purple text-white font-bold py-3.5 rounded-xl shadow-lg shadow-neon-purple/25 hover:scale-[1.02] active:scale-95 transition-all flex items-center justify-center gap-2 group disabled:opacity-50"
             >
-              {loading ? 'Processing...' : (isLogin ? 'Initialize Session' : 'Create Account')}
+              {loading ? 'Processing...' : isSetup ? (isLogin ? 'Become Admin' : 'Create Admin Account') : isLogin ? 'Initialize Session' : 'Create Account'}
               {!loading && <ArrowRight size={20} className="group-hover:translate-x-1 transition-transform" />}
             </button>
           </form>
@@ -165,13 +182,15 @@ export const Auth: React.FC<AuthProps> = ({ onLogin }) => {
           <div className="mt-6 text-center">
             <button
               onClick={() => {
-                  setIsLogin(!isLogin);
+                  // Leaving setup always goes to a plain login
+                  setIsSetup(false);
+                  setIsLogin(isSetup || !isLogin);
                   setError('');
                   setFormData({ userId: '', password: '', username: '' });
               }}
               className="text-gray-400 hover:text-white text-sm transition-colors"
             >
-              {isLogin ? "Don't have an ID? Create one" : "Already have an ID? Login"}
+              {isSetup && isLogin ? 'Log in without becoming admin' : isLogin ? "Don't have an ID? Create one" : "Already have an ID? Login"}
             </button>
           </div>
         </div>
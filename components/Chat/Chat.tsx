@@ -1,116 +1,405 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, MoreVertical, Phone, Video, Smile, MessageSquare } from 'lucide-react';
-import { User, Message } from '../../types';
+import { Send, MoreVertical, MoreHorizontal, Phone, Video, Smile, MessageSquare, Info, UsersRound, Check, CheckCheck, X, Reply, Pencil, Paperclip, Image as ImageIcon, Mic, Square, FileText, Loader2 } from 'lucide-react';
+import { User, Message, Conversation, MessageReceipt, MediaAttachment } from '../../types';
 import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { conversationTitle, otherParticipantId, unreadCount, messageReceipt, typingLabel, previewText } from '../../services/conversations';
+import { VoiceRecorder, MAX_VOICE_SECONDS, formatBytes, formatDuration, isInlineImage, startVoiceRecording } from '../../services/attachments';
+import { uploadErrorMessage } from '../../services/media';
+import { ConversationAvatar, NewGroupDialog, GroupInfoPanel } from './GroupDialogs';
+import { MessageMenu, MessageAction, ReactionSummary } from './MessageMenu';
+import { AttachmentView } from './MessageAttachment';
+import { Lightbox } from '../UI/MediaGallery';
+import { PresenceDot, usePresence } from '../UI/Presence';
+import { ReportDialog } from '../UI/ReportDialog';
+
+// Time of day for today's messages, otherwise the date
+const listTime = (ts: number) => {
+  const date = new Date(ts);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// How often a steady typist renews their typing signal
+const TYPING_RENEW_MS = 2000;
+
+const ReceiptIcon: React.FC<{ receipt: MessageReceipt }> = ({ receipt }) => {
+  if (receipt === 'sent') return <span title="Sent"><Check size={12} /></span>;
+  return (
+    <span title={receipt === 'read' ? 'Read' : 'Delivered'} className={receipt === 'read' ? 'text-white' : ''}>
+      <CheckCheck size={12} />
+    </span>
+  );
+};
 
 interface ChatProps {
   currentUser: User;
-  initialChatUserId: string | null;
+  initialChatUserId: string | null; // Open the direct chat with this user
+  initialConversationId: string | null; // Or this (group) conversation
+  onSelectConversation?: (conversation: Conversation | null) => void; // Keeps the URL in step with the open thread
   onRefresh: () => void;
 }
 
-export const Chat: React.FC<ChatProps> = ({ currentUser, initialChatUserId, onRefresh }) => {
+export const Chat: React.FC<ChatProps> = ({ currentUser, initialChatUserId, initialConversationId, onSelectConversation, onRefresh }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [friends, setFriends] = useState<User[]>([]);
-  const [selectedFriendId, setSelectedFriendId] = useState<string | null>(initialChatUserId);
+  const [users, setUsers] = useState<Record<string, User>>({ [currentUser.id]: currentUser });
+  const [selectedId, setSelectedId] = useState<string | null>(initialConversationId);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+  const presence = usePresence(conversations.filter(c => !c.isGroup).map(c => otherParticipantId(c, currentUser.id)));
+  const [menuFor, setMenuFor] = useState<string | null>(null);
+  const [reporting, setReporting] = useState<string | null>(null); // Message id
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [pendingFile, setPendingFile] = useState<{ file: File; previewUrl?: string } | null>(null);
+  const [recorder, setRecorder] = useState<VoiceRecorder | null>(null);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const lastTypingSignal = useRef(0);
 
-  // Sync selectedFriendId when prop changes
+  // Sync the open thread when the route changes
   useEffect(() => {
-    if (initialChatUserId) {
-        setSelectedFriendId(initialChatUserId);
+    if (initialConversationId) {
+        setSelectedId(initialConversationId);
+    } else if (initialChatUserId) {
+        StorageService.openDirectConversation(currentUser.id, initialChatUserId).then(c => setSelectedId(c.id));
+    } else {
+        setSelectedId(null);
     }
-  }, [initialChatUserId]);
+  }, [initialConversationId, initialChatUserId, currentUser.id]);
+
+  useEffect(() => {
+    setShowGroupInfo(false);
+  }, [selectedId]);
+
+  const selectConversation = (conversation: Conversation | null) => {
+    setSelectedId(conversation?.id || null);
+    onSelectConversation?.(conversation);
+  };
+
+  const startDirectChat = async (friendId: string) => {
+    selectConversation(await StorageService.openDirectConversation(currentUser.id, friendId));
+  };
+
+  useEffect(() => {
+    return StorageService.subscribeToConversations(currentUser.id, setConversations);
+  }, [currentUser.id]);
 
   // Load Friends List
   useEffect(() => {
-      const loadFriends = async () => {
-          const promises = currentUser.friends.map(fid => StorageService.getUser(fid));
-          const results = await Promise.all(promises);
-          const myFriends = results.filter(u => !!u) as User[];
-          
-          // Handle ad-hoc chat request (if chatting with someone not in friend list yet)
-          if (selectedFriendId && !myFriends.find(f => f.id === selectedFriendId)) {
-              const target = await StorageService.getUser(selectedFriendId);
-              if (target) myFriends.unshift(target);
-          }
-          setFriends(myFriends);
-      };
-      loadFriends();
-  }, [currentUser, selectedFriendId]);
+      Promise.all(currentUser.friends.map(fid => StorageService.getUser(fid)))
+          .then(results => setFriends(results.filter((u): u is User => !!u)));
+  }, [currentUser]);
+
+  // Everyone we need a name and avatar for: friends plus every participant we're talking to
+  useEffect(() => {
+      const known: Record<string, User> = { [currentUser.id]: currentUser };
+      friends.forEach(f => { known[f.id] = f; });
+      const missing = Array.from(new Set<string>(conversations.flatMap(c => c.participantIds))).filter(id => !known[id] && !users[id]);
+      Promise.all(missing.map(id => StorageService.getUser(id))).then(fetched => {
+          fetched.forEach(u => { if (u) known[u.id] = u; });
+          setUsers(prev => ({ ...prev, ...known }));
+      });
+  }, [conversations, friends, currentUser]);
 
   // Subscribe to messages
   useEffect(() => {
-    if (!selectedFriendId) return;
+    if (!selectedId) {
+        setMessages([]);
+        return;
+    }
+    return StorageService.subscribeToMessages(selectedId, currentUser.id, setMessages);
+  }, [selectedId, currentUser.id]);
+
+  useEffect(() => {
+    setMenuFor(null);
+    setReplyingTo(null);
+    setEditing(null);
+    setPendingFile(null);
+  }, [selectedId]);
+
+  useEffect(() => {
+    return () => {
+      if (pendingFile?.previewUrl) URL.revokeObjectURL(pendingFile.previewUrl);
+    };
+  }, [pendingFile]);
 
-    const unsubscribe = StorageService.subscribeToMessages(currentUser.id, selectedFriendId, (newMessages) => {
-        setMessages(newMessages);
-    });
+  // Recording clock; a recording left running is sent when it hits the limit
+  useEffect(() => {
+    if (!recorder) return;
+    setRecordingSeconds(0);
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setRecordingSeconds(seconds);
+      if (seconds >= MAX_VOICE_SECONDS) finishRecording();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recorder]);
+
+  // Leaving the thread throws away an unfinished recording
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  recorderRef.current = recorder;
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.cancel();
+      setRecorder(null);
+    };
+  }, [selectedId]);
 
-    return () => unsubscribe();
-  }, [selectedFriendId, currentUser]);
+  useEffect(() => {
+    setTypingIds([]);
+    if (!selectedId) return;
+    const unsubscribe = StorageService.subscribeToTyping(selectedId, currentUser.id, setTypingIds);
+    return () => {
+      unsubscribe();
+      // Leaving the thread stops our own typing signal there
+      lastTypingSignal.current = 0;
+      StorageService.setTyping(selectedId, currentUser.id, false);
+    };
+  }, [selectedId, currentUser.id]);
 
   useEffect(() => {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages.length]);
 
-  const handleSendMessage = async () => {
-    if (!inputText.trim() || !selectedFriendId) return;
-
-    const newMessage: Message = {
-      id: '', // ID generated by Firestore
-      fromId: currentUser.id,
-      toId: selectedFriendId,
-      content: inputText,
-      timestamp: Date.now(),
-      read: false
+  const selected = conversations.find(c => c.id === selectedId);
+
+  // Reading happens while the open thread is on screen: on arrival, or when the tab comes back
+  const hasUnseen = messages.some(m => !m.readBy?.[currentUser.id]) || (!!selected && unreadCount(selected, currentUser.id) > 0);
+  useEffect(() => {
+    if (!selectedId || !hasUnseen) return;
+    const markRead = () => {
+      if (document.visibilityState === 'visible') StorageService.markConversationRead(selectedId, currentUser.id);
     };
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [selectedId, hasUnseen, currentUser.id]);
 
-    await StorageService.sendMessage(newMessage);
+  const handleSendMessage = async () => {
+    if ((!inputText.trim() && !pendingFile) || !selected || isUploading) return;
+    if (editing) {
+      if (!inputText.trim()) return;
+      await StorageService.editMessage(editing.id, currentUser.id, inputText);
+      setEditing(null);
+      setInputText('');
+      return;
+    }
+    let attachment;
+    if (pendingFile) {
+      setIsUploading(true);
+      try {
+        attachment = await StorageService.uploadAttachment(pendingFile.file, `chat/${selected.id}/${Date.now()}_${pendingFile.file.name}`);
+      } catch (err) {
+        alert(uploadErrorMessage(err, 'Upload failed. Please try again.'));
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+    const sent = await StorageService.sendMessage({ conversationId: selected.id, fromId: currentUser.id, content: inputText.trim(), attachment, replyToId: replyingTo?.id });
+    // Refused: the draft, reply and attachment stay so nothing is lost
+    if (!sent) {
+      alert((await StorageService.sendRefusal(selected.id, currentUser.id)) || "The message couldn't be sent.");
+      return;
+    }
+    lastTypingSignal.current = 0;
+    setReplyingTo(null);
+    setPendingFile(null);
     setInputText('');
   };
 
-  const selectedFriend = friends.find(f => f.id === selectedFriendId);
+  const handlePickFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setEditing(null);
+    setPendingFile({ file, previewUrl: isInlineImage(file) ? URL.createObjectURL(file) : undefined });
+  };
+
+  const startRecording = async () => {
+    try {
+      setRecorder(await startVoiceRecording());
+    } catch (err) {
+      alert(uploadErrorMessage(err, 'Could not start recording.'));
+    }
+  };
+
+  const cancelRecording = () => {
+    recorder?.cancel();
+    setRecorder(null);
+  };
+
+  // Voice notes are sent as soon as recording stops
+  async function finishRecording() {
+    if (!recorder || !selected) return;
+    const active = recorder;
+    setRecorder(null);
+    setIsUploading(true);
+    try {
+      const { file, duration, waveform } = await active.stop();
+      const attachment = await StorageService.uploadAttachment(file, `chat/${selected.id}/${file.name}`, { duration, waveform });
+      const sent = await StorageService.sendMessage({ conversationId: selected.id, fromId: currentUser.id, content: '', attachment, replyToId: replyingTo?.id });
+      if (sent) setReplyingTo(null);
+      else alert((await StorageService.sendRefusal(selected.id, currentUser.id)) || "The voice message couldn't be sent.");
+    } catch (err) {
+      alert(uploadErrorMessage(err, 'Could not send the voice message.'));
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  // Every photo in the thread, for the viewer
+  const threadImages = messages.filter(m => m.attachment?.type === 'image' && !m.deleted);
+  const viewerMedia: MediaAttachment[] = threadImages.map(m => ({
+    id: m.id,
+    type: 'image',
+    url: m.attachment!.url,
+    thumbnailUrl: m.attachment!.thumbnailUrl,
+    alt: m.content || m.attachment!.name
+  }));
+
+  const cancelCompose = () => {
+    if (editing) setInputText('');
+    setEditing(null);
+    setReplyingTo(null);
+  };
+
+  const handleMessageAction = async (msg: Message, action: MessageAction) => {
+    setMenuFor(null);
+    switch (action) {
+      case 'reply':
+        setEditing(null);
+        setReplyingTo(msg);
+        break;
+      case 'edit':
+        setReplyingTo(null);
+        setEditing(msg);
+        setInputText(msg.content);
+        break;
+      case 'copy':
+        navigator.clipboard?.writeText(msg.content);
+        break;
+      case 'report':
+        setReporting(msg.id);
+        break;
+      case 'delete_me':
+        if (confirm('Delete this message for you? Others will still see it.')) {
+          await StorageService.deleteMessage(msg.id, currentUser.id, 'me');
+        }
+        break;
+      case 'delete_everyone':
+        if (confirm('Delete this message for everyone?')) {
+          const result = await StorageService.deleteMessage(msg.id, currentUser.id, 'everyone');
+          if (!result.success) alert(result.message);
+        }
+        break;
+    }
+  };
+
+  const senderName = (uid: string) => (uid === currentUser.id ? 'You' : users[uid]?.name || 'Former member');
+
+  const handleInputChange = (text: string) => {
+    setInputText(text);
+    if (!selectedId || editing) return;
+    if (!text.trim()) {
+      lastTypingSignal.current = 0;
+      StorageService.setTyping(selectedId, currentUser.id, false);
+    } else if (Date.now() - lastTypingSignal.current > TYPING_RENEW_MS) {
+      lastTypingSignal.current = Date.now();
+      StorageService.setTyping(selectedId, currentUser.id, true);
+    }
+  };
+
+  // Friends we don't have a direct conversation with yet
+  const directIds = new Set(conversations.filter(c => !c.isGroup).map(c => otherParticipantId(c, currentUser.id)));
+  const newChatFriends = friends.filter(f => !directIds.has(f.id));
+  const directPartnerId = selected && !selected.isGroup ? otherParticipantId(selected, currentUser.id) : undefined;
+  // Blocking either way closes the direct chat (sendMessage refuses it too)
+  const isBlocked = !!directPartnerId && directPartnerId !== currentUser.id &&
+    (!!currentUser.blockedUsers?.includes(directPartnerId) || !!users[directPartnerId]?.blockedUsers?.includes(currentUser.id));
 
   return (
     <div className="h-[calc(100vh-80px)] md:h-screen flex overflow-hidden bg-[#0f172a]">
       {/* Chat List (Sidebar) */}
-      <div className={`w-full md:w-80 border-r border-white/10 glass-panel flex flex-col ${selectedFriendId ? 'hidden md:flex' : 'flex'}`}>
-        <div className="p-4 border-b border-white/10">
+      <div className={`w-full md:w-80 border-r border-white/10 glass-panel flex flex-col ${selectedId ? 'hidden md:flex' : 'flex'}`}>
+        <div className="p-4 border-b border-white/10 flex items-center justify-between">
           <h2 className="text-xl font-bold text-white">Messages</h2>
+          <button
+            onClick={() => setShowNewGroup(true)}
+            className="p-2 rounded-full text-neon-purple hover:bg-neon-purple/10 hover:text-white transition-colors"
+            title="New group"
+          >
+            <UsersRound size={20} />
+          </button>
         </div>
         <div className="flex-1 overflow-y-auto">
-          {friends.map(friend => {
-             // Note: To show last message in list, we'd need a more complex query or structure 
-             // (e.g. 'conversations' collection). For prototype, we skip real last message preview 
-             // or would need to fetch separate queries for each friend which is heavy.
-             // We'll show a static placeholder or simple text.
-             
+          {conversations.map(conversation => {
+             const partnerStatus = conversation.isGroup ? 'offline' : presence.statusOf(otherParticipantId(conversation, currentUser.id));
+             const unread = unreadCount(conversation, currentUser.id);
+             const last = conversation.lastMessage;
+             const sender = !last || last.system ? ''
+                : last.fromId === currentUser.id ? 'You: '
+                : conversation.isGroup ? `${users[last.fromId]?.name.split(' ')[0] || 'Someone'}: ` : '';
              return (
                 <div 
-                    key={friend.id}
-                    onClick={() => setSelectedFriendId(friend.id)}
-                    className={`p-4 flex gap-3 cursor-pointer transition-colors hover:bg-white/5 ${selectedFriendId === friend.id ? 'bg-white/10 border-r-2 border-neon-blue' : ''}`}
+                    key={conversation.id}
+                    onClick={() => selectConversation(conversation)}
+                    className={`p-4 flex gap-3 cursor-pointer transition-colors hover:bg-white/5 ${selectedId === conversation.id ? 'bg-white/10 border-r-2 border-neon-blue' : ''}`}
                 >
                     <div className="relative">
-                        <img src={friend.avatar} className="w-12 h-12 rounded-full object-cover" />
-                        {friend.status === 'online' && (
-                            <div className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-[#111928]"></div>
+                        <ConversationAvatar conversation={conversation} currentUserId={currentUser.id} users={users} />
+                        {partnerStatus !== 'offline' && (
+                            <PresenceDot status={partnerStatus} className="absolute bottom-0 right-0 w-3 h-3 border-2 border-[#111928]" />
                         )}
                     </div>
                     <div className="flex-1 overflow-hidden">
-                        <div className="flex justify-between items-baseline">
-                            <h4 className="font-bold text-gray-200 truncate">{friend.name}</h4>
+                        <div className="flex justify-between items-baseline gap-2">
+                            <h4 className={`truncate ${unread > 0 ? 'font-bold text-white' : 'font-bold text-gray-200'}`}>{conversationTitle(conversation, currentUser.id, users)}</h4>
+                            <span className={`text-xs shrink-0 ${unread > 0 ? 'text-neon-pink' : 'text-gray-500'}`}>
+                                {listTime(last?.timestamp || conversation.updatedAt)}
+                            </span>
+                        </div>
+                        <div className="flex justify-between items-center gap-2">
+                            <p className={`text-sm truncate ${unread > 0 ? 'text-gray-200 font-medium' : 'text-gray-500'}`}>
+                                {last ? `${sender}${last.content}` : conversation.isGroup ? `${conversation.participantIds.length} members` : 'No messages yet'}
+                            </p>
+                            {unread > 0 && (
+                                <span className="min-w-[20px] h-5 px-1.5 rounded-full bg-neon-pink text-white text-[11px] font-bold flex items-center justify-center shrink-0">
+                                    {unread > 99 ? '99+' : unread}
+                                </span>
+                            )}
                         </div>
-                        <p className="text-sm truncate text-gray-500">
-                            Click to chat
-                        </p>
                     </div>
                 </div>
              );
           })}
-          {friends.length === 0 && (
+
+          {newChatFriends.length > 0 && (
+              <p className="px-4 pt-4 pb-2 text-xs uppercase tracking-wider text-gray-500">Start a chat</p>
+          )}
+          {newChatFriends.map(friend => (
+              <div
+                  key={friend.id}
+                  onClick={() => startDirectChat(friend.id)}
+                  className="px-4 py-3 flex gap-3 items-center cursor-pointer transition-colors hover:bg-white/5"
+              >
+                  <img src={avatarThumbnail(friend)} className="w-10 h-10 rounded-full object-cover" />
+                  <h4 className="font-bold text-gray-300 truncate">{friend.name}</h4>
+              </div>
+          ))}
+
+          {conversations.length === 0 && friends.length === 0 && (
               <div className="p-8 text-center text-gray-500 text-sm">
                   Add friends to start chatting!
               </div>
@@ -119,41 +408,127 @@ export const Chat: React.FC<ChatProps> = ({ currentUser, initialChatUserId, onRe
       </div>
 
       {/* Chat Window */}
-      <div className={`flex-1 flex flex-col relative bg-gradient-to-br from-[#0f172a] to-[#1e1b4b] ${!selectedFriendId ? 'hidden md:flex' : 'flex'}`}>
-         {selectedFriend ? (
+      <div className={`flex-1 flex flex-col relative bg-gradient-to-br from-[#0f172a] to-[#1e1b4b] ${!selectedId ? 'hidden md:flex' : 'flex'}`}>
+         {selected ? (
              <>
                 {/* Chat Header */}
                 <div className="h-16 glass-panel border-b border-white/10 flex items-center justify-between px-4 z-10">
-                    <div className="flex items-center gap-3">
-                        <button className="md:hidden text-gray-400 mr-2" onClick={() => setSelectedFriendId(null)}>←</button>
-                        <img src={selectedFriend.avatar} className="w-10 h-10 rounded-full" />
-                        <div>
-                            <h3 className="font-bold text-white">{selectedFriend.name}</h3>
-                            <p className="text-xs text-neon-blue flex items-center gap-1">
-                                <span className="w-1.5 h-1.5 bg-neon-blue rounded-full animate-pulse"></span>
-                                Online
-                            </p>
+                    <div className="flex items-center gap-3 min-w-0">
+                        <button className="md:hidden text-gray-400 mr-2" onClick={() => selectConversation(null)}>←</button>
+                        <ConversationAvatar conversation={selected} currentUserId={currentUser.id} users={users} size="w-10 h-10" />
+                        <div className="min-w-0">
+                            <h3 className="font-bold text-white truncate">{conversationTitle(selected, currentUser.id, users)}</h3>
+                            {typingIds.length > 0 ? (
+                                <p className="text-xs text-neon-cyan italic truncate">{typingLabel(typingIds, users)}</p>
+                            ) : selected.isGroup ? (
+                                <p className="text-xs text-gray-400 truncate">
+                                    {selected.participantIds.map(id => (id === currentUser.id ? 'You' : users[id]?.name.split(' ')[0])).filter(Boolean).join(', ')}
+                                </p>
+                            ) : directPartnerId && directPartnerId !== currentUser.id && (
+                                presence.statusOf(directPartnerId) === 'online' ? (
+                                    <p className="text-xs text-neon-blue flex items-center gap-1">
+                                        <span className="w-1.5 h-1.5 bg-neon-blue rounded-full animate-pulse"></span>
+                                        Online
+                                    </p>
+                                ) : (
+                                    <p className="text-xs text-gray-400 truncate">{presence.lastSeenOf(directPartnerId)}</p>
+                                )
+                            )}
                         </div>
                     </div>
                     <div className="flex gap-4 text-neon-purple">
-                        <Phone size={20} className="cursor-pointer hover:text-white" />
-                        <Video size={20} className="cursor-pointer hover:text-white" />
-                        <MoreVertical size={20} className="cursor-pointer hover:text-white" />
+                        {!selected.isGroup && (
+                            <>
+                                <Phone size={20} className="cursor-pointer hover:text-white" />
+                                <Video size={20} className="cursor-pointer hover:text-white" />
+                            </>
+                        )}
+                        {selected.isGroup ? (
+                            <button onClick={() => setShowGroupInfo(!showGroupInfo)} title="Group info" className="hover:text-white">
+                                <Info size={20} />
+                            </button>
+                        ) : (
+                            <MoreVertical size={20} className="cursor-pointer hover:text-white" />
+                        )}
                     </div>
                 </div>
 
                 {/* Messages Area */}
                 <div className="flex-1 overflow-y-auto p-4 space-y-4">
                     {messages.map(msg => {
+                        if (msg.system) {
+                            return (
+                                <p key={msg.id} className="text-center text-xs text-gray-500">{msg.content}</p>
+                            );
+                        }
                         const isMe = msg.fromId === currentUser.id;
+                        // Quote the original as it reads now when it's loaded (edits, deletion), else the snapshot
+                        const original = msg.replyTo && messages.find(m => m.id === msg.replyTo!.id);
                         return (
-                            <div key={msg.id || Math.random()} className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
-                                <div className={`max-w-[70%] rounded-2xl p-3 ${isMe ? 'bg-neon-blue text-white rounded-tr-none' : 'bg-white/10 text-gray-200 rounded-tl-none'}`}>
-                                    <p>{msg.content}</p>
-                                    <p className={`text-[10px] mt-1 text-right ${isMe ? 'text-blue-200' : 'text-gray-500'}`}>
+                            <div key={msg.id} className={`group flex items-start gap-1 ${isMe ? 'flex-row-reverse' : ''}`}>
+                                <div className={`relative max-w-[70%] rounded-2xl p-3 ${isMe ? 'bg-neon-blue text-white rounded-tr-none' : 'bg-white/10 text-gray-200 rounded-tl-none'}`}
+                                    onContextMenu={(e) => {
+                                        e.preventDefault();
+                                        setMenuFor(msg.id);
+                                    }}
+                                >
+                                    {selected.isGroup && !isMe && (
+                                        <p className="text-xs font-bold text-neon-cyan mb-1">{users[msg.fromId]?.name || 'Former member'}</p>
+                                    )}
+                                    {msg.replyTo && !msg.deleted && (
+                                        <div className={`mb-2 pl-2 border-l-2 text-xs rounded-r ${isMe ? 'border-white/60 text-blue-100' : 'border-neon-purple text-gray-400'}`}>
+                                            <p className="font-bold">{senderName(msg.replyTo.fromId)}</p>
+                                            <p className="truncate">{original ? previewText(original) : msg.replyTo.content}</p>
+                                        </div>
+                                    )}
+                                    {msg.deleted ? (
+                                        <p className="italic opacity-70">This message was deleted</p>
+                                    ) : (
+                                        <>
+                                            {msg.attachment && (
+                                                <AttachmentView
+                                                    attachment={msg.attachment}
+                                                    isMine={isMe}
+                                                    onOpenImage={() => setViewerIndex(threadImages.findIndex(m => m.id === msg.id))}
+                                                />
+                                            )}
+                                            {msg.content && <p className="whitespace-pre-wrap break-words">{msg.content}</p>}
+                                        </>
+                                    )}
+                                    <p className={`text-[10px] mt-1 flex items-center justify-end gap-1 ${isMe ? 'text-blue-200' : 'text-gray-500'}`}>
+                                        {msg.editedAt && !msg.deleted && <span title={new Date(msg.editedAt).toLocaleString()}>edited</span>}
                                         {new Date(msg.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}
+                                        {isMe && <ReceiptIcon receipt={messageReceipt(msg, selected)} />}
                                     </p>
+                                    {msg.reactions && (
+                                        <ReactionSummary
+                                            reactions={msg.reactions}
+                                            currentUserId={currentUser.id}
+                                            names={senderName}
+                                            onToggle={(emoji) => StorageService.toggleReaction(msg.id, currentUser.id, emoji)}
+                                        />
+                                    )}
+                                    {menuFor === msg.id && (
+                                        <MessageMenu
+                                            message={msg}
+                                            isMine={isMe}
+                                            myReaction={msg.reactions?.[currentUser.id]}
+                                            onReact={(emoji) => {
+                                                setMenuFor(null);
+                                                StorageService.toggleReaction(msg.id, currentUser.id, emoji);
+                                            }}
+                                            onAction={(action) => handleMessageAction(msg, action)}
+                                            onClose={() => setMenuFor(null)}
+                                        />
+                                    )}
                                 </div>
+                                <button
+                                    onClick={() => setMenuFor(menuFor === msg.id ? null : msg.id)}
+                                    className="mt-2 p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    title="More"
+                                >
+                                    <MoreHorizontal size={16} />
+                                </button>
                             </div>
                         );
                     })}
@@ -161,36 +536,149 @@ export const Chat: React.FC<ChatProps> = ({ currentUser, initialChatUserId, onRe
                 </div>
 
                 {/* Input Area */}
+                {isBlocked ? (
+                    <div className="p-4 glass-panel border-t border-white/10 text-center text-sm text-gray-500">
+                        {currentUser.blockedUsers?.includes(directPartnerId!)
+                            ? 'You blocked this user. Unblock them from their profile to send messages.'
+                            : "You can't reply to this conversation."}
+                    </div>
+                ) : (
                 <div className="p-4 glass-panel border-t border-white/10">
+                    {(replyingTo || editing) && (
+                        <div className="flex items-center gap-3 mb-2 px-3 py-2 rounded-lg bg-white/5 border-l-2 border-neon-purple text-sm">
+                            {editing ? <Pencil size={16} className="text-neon-purple shrink-0" /> : <Reply size={16} className="text-neon-purple shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-xs font-bold text-neon-purple">
+                                    {editing ? 'Editing message' : `Replying to ${senderName(replyingTo!.fromId)}`}
+                                </p>
+                                <p className="text-gray-400 truncate">{previewText((editing || replyingTo)!)}</p>
+                            </div>
+                            <button onClick={cancelCompose} className="text-gray-400 hover:text-white" title="Cancel">
+                                <X size={16} />
+                            </button>
+                        </div>
+                    )}
+                    {pendingFile && (
+                        <div className="flex items-center gap-3 mb-2 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm">
+                            {pendingFile.previewUrl ? (
+                                <img src={pendingFile.previewUrl} className="w-12 h-12 rounded object-cover" />
+                            ) : (
+                                <FileText size={28} className="text-neon-cyan shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-white truncate">{pendingFile.file.name}</p>
+                                <p className="text-xs text-gray-500">{formatBytes(pendingFile.file.size)}</p>
+                            </div>
+                            <button onClick={() => setPendingFile(null)} disabled={isUploading} className="text-gray-400 hover:text-white disabled:opacity-50" title="Remove">
+                                <X size={16} />
+                            </button>
+                        </div>
+                    )}
+                    {recorder ? (
+                        <div className="flex items-center gap-3 bg-white/5 rounded-full px-4 py-2 border border-red-500/50">
+                            <button onClick={cancelRecording} className="p-2 rounded-full text-gray-400 hover:text-white" title="Discard">
+                                <X size={20} />
+                            </button>
+                            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse"></span>
+                            <span className="flex-1 text-sm text-white tabular-nums">
+                                {formatDuration(recordingSeconds)} <span className="text-gray-500">/ {formatDuration(MAX_VOICE_SECONDS)}</span>
+                            </span>
+                            <button onClick={finishRecording} className="p-2 rounded-full text-neon-blue hover:bg-neon-blue/10" title="Send voice message">
+                                <Square size={18} />
+                            </button>
+                        </div>
+                    ) : (
                     <div className="flex items-center gap-2 bg-white/5 rounded-full px-4 py-2 border border-white/10 focus-within:border-neon-blue/50 transition-colors">
                         <Smile size={20} className="text-gray-400 cursor-pointer hover:text-yellow-400" />
+                        {!editing && (
+                            <>
+                                <button onClick={() => imageInputRef.current?.click()} className="text-gray-400 hover:text-neon-cyan" title="Send a photo">
+                                    <ImageIcon size={20} />
+                                </button>
+                                <button onClick={() => fileInputRef.current?.click()} className="text-gray-400 hover:text-neon-cyan" title="Attach a file">
+                                    <Paperclip size={20} />
+                                </button>
+                                <input type="file" ref={imageInputRef} onChange={handlePickFile} accept="image/*" className="hidden" />
+                                <input type="file" ref={fileInputRef} onChange={handlePickFile} className="hidden" />
+                            </>
+                        )}
                         <input 
                             type="text" 
                             className="flex-1 bg-transparent text-white placeholder-gray-500 focus:outline-none py-1"
-                            placeholder="Type a message..."
+                            placeholder={pendingFile ? 'Add a caption...' : 'Type a message...'}
                             value={inputText}
-                            onChange={(e) => setInputText(e.target.value)}
-                            onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+                            onChange={(e) => handleInputChange(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSendMessage();
+                                else if (e.key === 'Escape') cancelCompose();
+                            }}
                         />
-                        <button 
-                            onClick={handleSendMessage}
-                            className={`p-2 rounded-full transition-all ${inputText.trim() ? 'text-neon-blue hover:bg-neon-blue/10' : 'text-gray-600'}`}
-                        >
-                            <Send size={20} />
-                        </button>
+                        {isUploading ? (
+                            <Loader2 size={20} className="m-2 text-neon-blue animate-spin" />
+                        ) : !inputText.trim() && !pendingFile && !editing ? (
+                            <button onClick={startRecording} className="p-2 rounded-full text-gray-400 hover:text-neon-pink hover:bg-neon-pink/10" title="Record a voice message">
+                                <Mic size={20} />
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={handleSendMessage}
+                                className="p-2 rounded-full transition-all text-neon-blue hover:bg-neon-blue/10"
+                            >
+                                <Send size={20} />
+                            </button>
+                        )}
                     </div>
+                    )}
                 </div>
+                )}
+
+                {viewerIndex !== null && viewerMedia[viewerIndex] && (
+                    <Lightbox
+                        media={viewerMedia}
+                        startIndex={viewerIndex}
+                        downloadName={(item) => threadImages.find(m => m.id === item.id)?.attachment?.name || 'photo'}
+                        onClose={() => setViewerIndex(null)}
+                    />
+                )}
+
+                {showGroupInfo && selected.isGroup && (
+                    <GroupInfoPanel
+                        key={selected.id}
+                        conversation={selected}
+                        currentUser={currentUser}
+                        users={users}
+                        friends={friends}
+                        onLeft={() => selectConversation(null)}
+                        onClose={() => setShowGroupInfo(false)}
+                    />
+                )}
              </>
          ) : (
              <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
                  <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-4 animate-pulse">
                     <MessageSquare size={40} className="text-neon-purple/50" />
                  </div>
-                 <p className="text-lg font-medium">Select a friend to start messaging</p>
+                 <p className="text-lg font-medium">Select a conversation to start messaging</p>
                  <p className="text-sm mt-2">Connect with people on NEOBOOK!</p>
              </div>
          )}
       </div>
+
+      {showNewGroup && (
+          <NewGroupDialog
+              currentUser={currentUser}
+              friends={friends}
+              onCreated={(conversation) => {
+                  setShowNewGroup(false);
+                  selectConversation(conversation);
+              }}
+              onClose={() => setShowNewGroup(false)}
+          />
+      )}
+
+      {reporting && (
+          <ReportDialog reporterId={currentUser.id} target={{ type: 'message', id: reporting }} onClose={() => setReporting(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
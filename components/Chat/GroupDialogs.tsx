@@ -0,0 +1,255 @@
+import React, { useState, useRef } from 'react';
+import { X, CheckCircle, Camera, Crown, LogOut, UserMinus, UserPlus, Users } from 'lucide-react';
+import { User, Conversation } from '../../types';
+import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { uploadErrorMessage } from '../../services/media';
+import { conversationTitle } from '../../services/conversations';
+
+// Group picture, falling back to the first members' avatars side by side
+export const ConversationAvatar: React.FC<{
+  conversation: Conversation;
+  currentUserId: string;
+  users: Record<string, User>;
+  size?: string;
+}> = ({ conversation, currentUserId, users, size = 'w-12 h-12' }) => {
+  if (conversation.avatar) {
+    return <img src={conversation.avatar} className={`${size} rounded-full object-cover`} />;
+  }
+  const others = conversation.participantIds.filter(id => id !== currentUserId);
+  if (!conversation.isGroup) {
+    return <img src={avatarThumbnail(users[others[0] || currentUserId])} className={`${size} rounded-full object-cover`} />;
+  }
+  const shown = others.slice(0, 2);
+  return (
+    <div className={`${size} rounded-full overflow-hidden bg-neon-purple/20 flex items-center justify-center shrink-0`}>
+      {shown.length === 0 ? (
+        <Users size={20} className="text-neon-purple" />
+      ) : (
+        shown.map(id => <img key={id} src={avatarThumbnail(users[id])} className={`h-full object-cover ${shown.length === 1 ? 'w-full' : 'w-1/2'}`} />)
+      )}
+    </div>
+  );
+};
+
+const FriendPicker: React.FC<{
+  friends: User[];
+  selected: string[];
+  onToggle: (id: string) => void;
+}> = ({ friends, selected, onToggle }) => (
+  <div className="max-h-56 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+    {friends.map(friend => (
+      <div
+        key={friend.id}
+        onClick={() => onToggle(friend.id)}
+        className={`flex items-center justify-between p-2 rounded-lg cursor-pointer border ${selected.includes(friend.id) ? 'bg-neon-purple/20 border-neon-purple' : 'bg-white/5 border-transparent hover:bg-white/10'}`}
+      >
+        <div className="flex items-center gap-3">
+          <img src={avatarThumbnail(friend)} className="w-8 h-8 rounded-full" />
+          <span className="text-sm text-white">{friend.name}</span>
+        </div>
+        {selected.includes(friend.id) && <CheckCircle size={16} className="text-neon-purple" />}
+      </div>
+    ))}
+    {friends.length === 0 && <p className="text-xs text-gray-500">No friends to add.</p>}
+  </div>
+);
+
+const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+
+interface NewGroupDialogProps {
+  currentUser: User;
+  friends: User[];
+  onCreated: (conversation: Conversation) => void;
+  onClose: () => void;
+}
+
+export const NewGroupDialog: React.FC<NewGroupDialogProps> = ({ currentUser, friends, onCreated, onClose }) => {
+  const [title, setTitle] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    if (selected.length === 0) return;
+    setIsCreating(true);
+    const conversation = await StorageService.createGroupConversation(currentUser.id, selected, title);
+    setIsCreating(false);
+    onCreated(conversation);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#111928] border border-white/10 rounded-2xl w-full max-w-md p-6 shadow-2xl shadow-neon-purple/20">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-white">New Group</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={24} /></button>
+        </div>
+
+        <input
+          className="w-full bg-black/30 border border-white/10 rounded-xl p-3 text-white mb-4 focus:border-neon-purple outline-none"
+          placeholder="Group name (optional)"
+          maxLength={60}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+
+        <p className="text-sm font-bold text-gray-400 mb-2">Add friends</p>
+        <FriendPicker friends={friends} selected={selected} onToggle={id => setSelected(toggle(selected, id))} />
+
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || selected.length === 0}
+          className="w-full mt-6 bg-neon-purple text-white py-3 rounded-xl font-bold hover:bg-neon-purple/80 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? 'Creating...' : `Create group${selected.length > 0 ? ` (${selected.length + 1})` : ''}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface GroupInfoPanelProps {
+  conversation: Conversation;
+  currentUser: User;
+  users: Record<string, User>;
+  friends: User[];
+  onLeft: () => void;
+  onClose: () => void;
+}
+
+// Members, rename, picture and leave, for a group conversation
+export const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({ conversation, currentUser, users, friends, onLeft, onClose }) => {
+  const [title, setTitle] = useState(conversation.title || '');
+  const [isAdding, setIsAdding] = useState(false);
+  const [toAdd, setToAdd] = useState<string[]>([]);
+  const [notice, setNotice] = useState('');
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const isOwner = conversation.createdBy === currentUser.id;
+  const addable = friends.filter(f => !conversation.participantIds.includes(f.id));
+
+  const flash = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(''), 3000);
+  };
+
+  const handleRename = async () => {
+    if (title.trim() === (conversation.title || '')) return;
+    await StorageService.updateGroup(conversation.id, currentUser.id, { title });
+  };
+
+  const handleAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const { thumbnailUrl } = await StorageService.uploadImage(file, `conversations/${conversation.id}/avatar_${Date.now()}`, 'avatar');
+      await StorageService.updateGroup(conversation.id, currentUser.id, { avatar: thumbnailUrl });
+    } catch (err) {
+      alert(uploadErrorMessage(err, 'Upload failed.'));
+    }
+  };
+
+  const handleAdd = async () => {
+    const result = await StorageService.addGroupMembers(conversation.id, currentUser.id, toAdd);
+    flash(result.message);
+    if (result.success) {
+      setToAdd([]);
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    if (!confirm(`Remove ${users[memberId]?.name || 'this member'} from the group?`)) return;
+    flash((await StorageService.removeGroupMember(conversation.id, currentUser.id, memberId)).message);
+  };
+
+  const handleLeave = async () => {
+    if (!confirm('Leave this group? You will stop receiving its messages.')) return;
+    const result = await StorageService.leaveGroup(conversation.id, currentUser.id);
+    if (result.success) onLeft();
+    else flash(result.message);
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 w-full sm:w-80 z-20 bg-[#111928] border-l border-white/10 flex flex-col shadow-2xl">
+      <div className="h-16 flex items-center justify-between px-4 border-b border-white/10">
+        <h3 className="font-bold text-white">Group info</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        <div className="flex flex-col items-center gap-3">
+          <div className="relative group">
+            <ConversationAvatar conversation={conversation} currentUserId={currentUser.id} users={users} size="w-20 h-20" />
+            <button
+              onClick={() => avatarInputRef.current?.click()}
+              className="absolute inset-0 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity"
+              title="Change group picture"
+            >
+              <Camera size={20} />
+            </button>
+            <input type="file" ref={avatarInputRef} onChange={handleAvatar} accept="image/*" className="hidden" />
+          </div>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+            placeholder={conversationTitle({ ...conversation, title: undefined }, currentUser.id, users)}
+            maxLength={60}
+            className="w-full text-center bg-transparent border-b border-white/10 focus:border-neon-purple text-white font-bold py-1 outline-none"
+          />
+        </div>
+
+        {notice && <p className="text-center text-sm text-neon-cyan">{notice}</p>}
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-sm font-bold text-gray-400">{conversation.participantIds.length} members</p>
+            {addable.length > 0 && (
+              <button onClick={() => setIsAdding(!isAdding)} className="text-neon-cyan text-sm flex items-center gap-1 hover:text-white">
+                <UserPlus size={14} /> Add
+              </button>
+            )}
+          </div>
+
+          {isAdding && (
+            <div className="mb-4 p-3 rounded-xl bg-white/5 border border-white/10">
+              <FriendPicker friends={addable} selected={toAdd} onToggle={id => setToAdd(toggle(toAdd, id))} />
+              <button
+                onClick={handleAdd}
+                disabled={toAdd.length === 0}
+                className="w-full mt-3 bg-neon-purple text-white py-2 rounded-lg text-sm font-bold hover:bg-neon-purple/80 disabled:opacity-50"
+              >
+                Add to group
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {conversation.participantIds.map(id => (
+              <div key={id} className="flex items-center justify-between p-2 rounded-lg hover:bg-white/5">
+                <div className="flex items-center gap-3">
+                  <img src={avatarThumbnail(users[id])} className="w-8 h-8 rounded-full" />
+                  <span className="text-sm text-white">{id === currentUser.id ? 'You' : users[id]?.name || 'Unknown user'}</span>
+                  {conversation.createdBy === id && <span title="Owner"><Crown size={14} className="text-yellow-400" /></span>}
+                </div>
+                {isOwner && id !== currentUser.id && (
+                  <button onClick={() => handleRemove(id)} className="text-gray-500 hover:text-red-400" title="Remove from group">
+                    <UserMinus size={16} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-white/10">
+        <button onClick={handleLeave} className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-red-400 hover:bg-red-500/10">
+          <LogOut size={16} /> Leave group
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, FileText, Download } from 'lucide-react';
+import { MessageAttachment } from '../../types';
+import { formatBytes, formatDuration } from '../../services/attachments';
+
+// Voice note: play/pause plus the recorded waveform, filled in as it plays; click a bar to seek
+const VoicePlayer: React.FC<{ attachment: MessageAttachment; isMine: boolean }> = ({ attachment, isMine }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const duration = attachment.duration || 0;
+  const bars = attachment.waveform?.length ? attachment.waveform : Array(40).fill(0.3);
+  const progress = duration > 0 ? position / duration : 0;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const onTime = () => setPosition(audio.currentTime);
+    const onEnd = () => {
+      setIsPlaying(false);
+      setPosition(0);
+    };
+    audio.addEventListener('timeupdate', onTime);
+    audio.addEventListener('ended', onEnd);
+    return () => {
+      audio.removeEventListener('timeupdate', onTime);
+      audio.removeEventListener('ended', onEnd);
+    };
+  }, []);
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+    } else {
+      audio.play().then(() => setIsPlaying(true)).catch(() => setIsPlaying(false));
+    }
+  };
+
+  const seek = (index: number) => {
+    const audio = audioRef.current;
+    if (!audio || duration === 0) return;
+    audio.currentTime = (index / bars.length) * duration;
+    setPosition(audio.currentTime);
+  };
+
+  return (
+    <div className="flex items-center gap-3 min-w-[220px]">
+      <audio ref={audioRef} src={attachment.url} preload="metadata" />
+      <button
+        onClick={toggle}
+        className={`w-9 h-9 rounded-full flex items-center justify-center shrink-0 ${isMine ? 'bg-white text-neon-blue' : 'bg-neon-purple text-white'}`}
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+      <div className="flex-1 flex items-center gap-[2px] h-8">
+        {bars.map((level, i) => (
+          <span
+            key={i}
+            onClick={() => seek(i)}
+            className={`flex-1 rounded-full cursor-pointer ${i / bars.length < progress ? (isMine ? 'bg-white' : 'bg-neon-purple') : (isMine ? 'bg-white/40' : 'bg-white/20')}`}
+            style={{ height: `${Math.max(12, level * 100)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-xs tabular-nums opacity-80">{formatDuration(isPlaying || position > 0 ? position : duration)}</span>
+    </div>
+  );
+};
+
+interface AttachmentViewProps {
+  attachment: MessageAttachment;
+  isMine: boolean;
+  onOpenImage: () => void;
+}
+
+export const AttachmentView: React.FC<AttachmentViewProps> = ({ attachment, isMine, onOpenImage }) => {
+  if (attachment.type === 'image') {
+    return (
+      <button onClick={onOpenImage} className="block mb-1 rounded-lg overflow-hidden" title="View photo">
+        <img src={attachment.thumbnailUrl || attachment.url} alt={attachment.name} className="max-h-60 max-w-full object-cover" />
+      </button>
+    );
+  }
+
+  if (attachment.type === 'voice') {
+    return <VoicePlayer attachment={attachment} isMine={isMine} />;
+  }
+
+  return (
+    <a
+      href={attachment.url}
+      download={attachment.name}
+      target="_blank"
+      rel="noreferrer"
+      className={`flex items-center gap-3 p-2 mb-1 rounded-lg ${isMine ? 'bg-white/15 hover:bg-white/25' : 'bg-black/30 hover:bg-black/40'}`}
+    >
+      <FileText size={28} className="shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium truncate">{attachment.name}</p>
+        <p className="text-xs opacity-70">{formatBytes(attachment.size)}</p>
+      </div>
+      <Download size={18} className="shrink-0 opacity-80" />
+    </a>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from 'react';
+import { Reply, Pencil, Trash2, EyeOff, Copy, Flag } from 'lucide-react';
+import { Message } from '../../types';
+
+export const REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export type MessageAction = 'reply' | 'edit' | 'copy' | 'report' | 'delete_me' | 'delete_everyone';
+
+interface MessageMenuProps {
+  message: Message;
+  isMine: boolean;
+  myReaction?: string;
+  onReact: (emoji: string) => void;
+  onAction: (action: MessageAction) => void;
+  onClose: () => void;
+}
+
+// Opened from a bubble's right-click or its hover button; closes on any outside click or Esc
+export const MessageMenu: React.FC<MessageMenuProps> = ({ message, isMine, myReaction, onReact, onAction, onClose }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [onClose]);
+
+  const items: { action: MessageAction; label: string; icon: typeof Reply; danger?: boolean }[] = [
+    { action: 'reply', label: 'Reply', icon: Reply },
+    ...(message.content ? [{ action: 'copy' as const, label: 'Copy text', icon: Copy }] : []),
+    ...(isMine && message.content ? [{ action: 'edit' as const, label: 'Edit', icon: Pencil }] : []),
+    ...(!isMine ? [{ action: 'report' as const, label: 'Report', icon: Flag }] : []),
+    { action: 'delete_me', label: 'Delete for me', icon: EyeOff, danger: true },
+    ...(isMine ? [{ action: 'delete_everyone' as const, label: 'Delete for everyone', icon: Trash2, danger: true }] : [])
+  ];
+
+  return (
+    <div
+      ref={ref}
+      className={`absolute z-30 top-full mt-1 ${isMine ? 'right-0' : 'left-0'} w-56 bg-[#111928] border border-white/10 rounded-xl shadow-2xl overflow-hidden`}
+    >
+      {!message.deleted && (
+        <div className="flex justify-between px-2 py-2 border-b border-white/10">
+          {REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => onReact(emoji)}
+              className={`w-8 h-8 rounded-full text-lg hover:bg-white/10 hover:scale-110 transition-transform ${myReaction === emoji ? 'bg-neon-purple/30' : ''}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+      {items
+        .filter(item => !message.deleted || item.action === 'delete_me')
+        .map(({ action, label, icon: Icon, danger }) => (
+          <button
+            key={action}
+            onClick={() => onAction(action)}
+            className={`w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-white/5 ${danger ? 'text-red-400' : 'text-gray-200'}`}
+          >
+            <Icon size={16} /> {label}
+          </button>
+        ))}
+    </div>
+  );
+};
+
+// Aggregated counts under a bubble; clicking one toggles your own reaction with that emoji
+export const ReactionSummary: React.FC<{
+  reactions: Record<string, string>;
+  currentUserId: string;
+  names: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}> = ({ reactions, currentUserId, names, onToggle }) => {
+  const byEmoji = new Map<string, string[]>();
+  Object.entries<string>(reactions).forEach(([uid, emoji]) => byEmoji.set(emoji, [...(byEmoji.get(emoji) || []), uid]));
+  if (byEmoji.size === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {Array.from(byEmoji, ([emoji, uids]) => (
+        <button
+          key={emoji}
+          onClick={() => onToggle(emoji)}
+          title={uids.map(names).join(', ')}
+          className={`px-2 py-0.5 rounded-full text-xs border flex items-center gap-1 ${uids.includes(currentUserId) ? 'bg-neon-purple/30 border-neon-purple text-white' : 'bg-black/30 border-white/10 text-gray-300'}`}
+        >
+          <span>{emoji}</span>
+          {uids.length > 1 && <span>{uids.length}</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { X, GripVertical, Play } from 'lucide-react';
+import { MediaType } from '../../types';
+
+// A picked file waiting to be uploaded with the post
+export interface DraftAttachment {
+  id: string;
+  file: File;
+  previewUrl: string; // Object URL; revoke when the draft is dropped
+  type: MediaType;
+  alt: string;
+}
+
+interface ComposerAttachmentsProps {
+  attachments: DraftAttachment[];
+  onChange: (attachments: DraftAttachment[]) => void;
+  disabled?: boolean;
+}
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Drag a tile onto another to reorder; the first one leads the post's gallery
+export const ComposerAttachments: React.FC<ComposerAttachmentsProps> = ({ attachments, onChange, disabled }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const remove = (id: string) => {
+    const dropped = attachments.find(a => a.id === id);
+    if (dropped) URL.revokeObjectURL(dropped.previewUrl);
+    onChange(attachments.filter(a => a.id !== id));
+  };
+
+  const setAlt = (id: string, alt: string) => onChange(attachments.map(a => (a.id === id ? { ...a, alt } : a)));
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2 mb-2">
+      {attachments.map((a, i) => (
+        <div
+          key={a.id}
+          draggable={!disabled && attachments.length > 1}
+          onDragStart={(e) => {
+            setDragIndex(i);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            setOverIndex(i);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null && dragIndex !== i) onChange(move(attachments, dragIndex, i));
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={`rounded-lg border bg-white/5 overflow-hidden transition-all ${
+            overIndex === i && dragIndex !== i ? 'border-neon-purple ring-2 ring-neon-purple/40' : 'border-white/10'
+          } ${dragIndex === i ? 'opacity-40' : ''}`}
+        >
+          <div className="relative aspect-square bg-black/40">
+            {a.type === 'video' ? (
+              <video src={a.previewUrl} muted className="w-full h-full object-cover" />
+            ) : (
+              <img src={a.previewUrl} alt={a.alt} className="w-full h-full object-cover" />
+            )}
+            {a.type === 'video' && (
+              <span className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="p-2 rounded-full bg-black/60 text-white"><Play size={16} /></span>
+              </span>
+            )}
+            {attachments.length > 1 && (
+              <span className="absolute top-1 left-1 p-1 bg-black/50 rounded text-gray-300 cursor-grab" title="Drag to reorder">
+                <GripVertical size={14} />
+              </span>
+            )}
+            <button
+              onClick={() => remove(a.id)}
+              disabled={disabled}
+              className="absolute top-1 right-1 p-1 bg-black/50 rounded-full text-white hover:bg-red-500 transition-colors disabled:opacity-50"
+              title="Remove"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <input
+            value={a.alt}
+            onChange={(e) => setAlt(a.id, e.target.value)}
+            disabled={disabled}
+            placeholder="Describe this for screen readers"
+            maxLength={300}
+            className="w-full bg-transparent px-2 py-1.5 text-xs text-white placeholder-gray-500 focus:outline-none border-t border-white/10"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
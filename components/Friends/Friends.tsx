@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Search, UserPlus, Check, X, User as UserIcon, MessageSquare } from 'lucide-react';
-import { User } from '../../types';
+import { Search, UserPlus, Check, X, User as UserIcon, MessageSquare, Users } from 'lucide-react';
+import { User, UserSearchResult } from '../../types';
 import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { PresenceDot, usePresence } from '../UI/Presence';
+import { PeopleYouMayKnow } from './PeopleYouMayKnow';
 
 interface FriendsProps {
   currentUser: User;
@@ -12,9 +15,13 @@ interface FriendsProps {
 
 export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfile, onNavigateToChat, onRefresh }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchResults, setSearchResults] = useState<User[]>([]);
+  const [searchResults, setSearchResults] = useState<UserSearchResult[]>([]);
   const [friendRequests, setFriendRequests] = useState<User[]>([]);
   const [myFriends, setMyFriends] = useState<User[]>([]);
+  const [sentRequests, setSentRequests] = useState<User[]>([]);
+  const [blockedUsers, setBlockedUsers] = useState<User[]>([]);
+  const [tab, setTab] = useState<'friends' | 'sent' | 'blocked'>('friends');
+  const presence = usePresence(myFriends.map(f => f.id));
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -28,38 +35,67 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
       const friendPromises = currentUser.friends.map(id => StorageService.getUser(id));
       const friendUsers = await Promise.all(friendPromises);
       setMyFriends(friendUsers.filter(u => !!u) as User[]);
+
+      // 3. Requests we're waiting on, and people we blocked
+      const [sent, blocked] = await Promise.all([
+          StorageService.getSentFriendRequests(currentUser.id),
+          StorageService.getBlockedUsers(currentUser.id)
+      ]);
+      setSentRequests(sent);
+      setBlockedUsers(blocked);
   };
 
   useEffect(() => {
       loadData();
   }, [currentUser]);
 
-  const handleSearch = async () => {
-    if (!searchTerm) return;
-    setIsLoading(true);
-    
-    // We can only efficiently search by exact custom User ID in Firebase without indexing everything 
-    // or using a full text search service like Algolia.
-    // For prototype, we'll search by exact custom ID.
-    const user = await StorageService.findUserByCustomId(searchTerm);
-    if (user) {
-        setSearchResults([user]);
-    } else {
+  const runSearch = async (term: string) => {
+    if (!term.trim()) {
         setSearchResults([]);
-        setMessage('User not found');
-        setTimeout(() => setMessage(''), 3000);
+        return;
     }
+    setIsLoading(true);
+    const results = await StorageService.searchUsers(term, currentUser.id);
+    setSearchResults(results);
     setIsLoading(false);
   };
 
+  // Search as you type, once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => runSearch(searchTerm), 250);
+    return () => clearTimeout(timer);
+  }, [searchTerm, currentUser]);
+
+  const handleSearch = () => runSearch(searchTerm);
+
+  const flash = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
   const sendRequest = async (targetUserId: string) => {
     const result = await StorageService.sendFriendRequest(currentUser.id, targetUserId);
-    setMessage(result.message);
-    setTimeout(() => setMessage(''), 3000);
+    flash(result.message);
+    runSearch(searchTerm);
+    loadData();
+  };
+
+  const declineRequest = async (requesterId: string) => {
+    flash((await StorageService.declineFriendRequest(currentUser.id, requesterId)).message);
+  };
+
+  const cancelRequest = async (targetId: string) => {
+    flash((await StorageService.cancelFriendRequest(currentUser.id, targetId)).message);
+    runSearch(searchTerm);
+    loadData();
+  };
+
+  const unblock = async (targetId: string) => {
+    flash((await StorageService.unblockUser(currentUser.id, targetId)).message);
   };
 
   const acceptRequest = async (requesterId: string) => {
-      await StorageService.acceptFriendRequest(currentUser.id, requesterId);
+      flash((await StorageService.acceptFriendRequest(currentUser.id, requesterId)).message);
       onRefresh(); // Trigger global refresh to update currentUser object
   };
 
@@ -72,7 +108,7 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
                 <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
                 <input 
                     type="text" 
-                    placeholder="Enter exact User ID (e.g. NeoKing77)..."
+                    placeholder="Search by name, User ID or bio..."
                     className="w-full pl-12 pr-4 py-4 bg-white/5 border border-white/10 rounded-xl text-white focus:ring-2 focus:ring-neon-purple focus:outline-none backdrop-blur-md"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
@@ -95,27 +131,64 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
         <div className="mb-12 animate-in slide-in-from-left-4 duration-500">
             <h3 className="text-xl font-bold text-gray-300 mb-4">Search Results</h3>
             <div className="grid gap-4 md:grid-cols-2">
-                {searchResults.map(user => (
+                {searchResults.map(({ user, mutualFriends, friendship }) => (
                     <div key={user.id} className="glass-card p-4 rounded-xl flex items-center gap-4">
-                        <img src={user.avatar} className="w-12 h-12 rounded-full cursor-pointer" onClick={() => onNavigateToProfile(user.id)} alt={user.name} />
+                        <img src={avatarThumbnail(user)} className="w-12 h-12 rounded-full cursor-pointer" onClick={() => onNavigateToProfile(user.id)} alt={user.name} />
                         <div className="flex-1 overflow-hidden">
                             <h4 className="font-bold text-white truncate cursor-pointer hover:text-neon-blue" onClick={() => onNavigateToProfile(user.id)}>{user.name}</h4>
                             <p className="text-sm text-gray-400 truncate">@{user.userId}</p>
+                            {mutualFriends > 0 && (
+                                <p className="text-xs text-neon-cyan flex items-center gap-1 mt-0.5">
+                                    <Users size={12} /> {mutualFriends} mutual {mutualFriends === 1 ? 'friend' : 'friends'}
+                                </p>
+                            )}
                         </div>
-                        {user.id !== currentUser.id && !currentUser.friends.includes(user.id) && (
+                        {friendship === 'none' && (
                             <button 
                                 onClick={() => sendRequest(user.userId)}
                                 className="p-2 bg-neon-blue/20 text-neon-blue rounded-lg hover:bg-neon-blue hover:text-white transition-colors"
+                                title="Add friend"
                             >
                                 <UserPlus size={20} />
                             </button>
                         )}
+                        {friendship === 'sent' && (
+                            <button
+                                onClick={() => cancelRequest(user.id)}
+                                className="text-xs text-gray-400 bg-white/5 px-2 py-1 rounded-lg hover:bg-red-500/20 hover:text-red-400"
+                                title="Cancel request"
+                            >
+                                Request sent
+                            </button>
+                        )}
+                        {friendship === 'received' && (
+                            <button
+                                onClick={() => acceptRequest(user.id)}
+                                className="text-xs px-2 py-1 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500 hover:text-white"
+                            >
+                                Accept
+                            </button>
+                        )}
+                        {friendship === 'friend' && (
+                            <button
+                                onClick={() => onNavigateToChat(user.id)}
+                                className="p-2 bg-neon-purple/10 text-neon-purple rounded-lg hover:bg-neon-purple/20"
+                                title="Friends · Message"
+                            >
+                                <MessageSquare size={20} />
+                            </button>
+                        )}
+                        {friendship === 'self' && <span className="text-xs text-gray-500">You</span>}
                     </div>
                 ))}
             </div>
         </div>
       )}
 
+      {searchTerm.trim() && !isLoading && searchResults.length === 0 && (
+        <p className="mb-12 text-gray-500">No users match "{searchTerm}".</p>
+      )}
+
       {/* Friend Requests */}
       {friendRequests.length > 0 && (
           <div className="mb-12">
@@ -124,7 +197,7 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
                   {friendRequests.map(req => (
                       <div key={req.id} className="bg-white/5 border border-neon-pink/30 p-4 rounded-xl flex items-center justify-between">
                           <div className="flex items-center gap-3">
-                              <img src={req.avatar} className="w-10 h-10 rounded-full cursor-pointer" onClick={() => onNavigateToProfile(req.id)} />
+                              <img src={avatarThumbnail(req)} className="w-10 h-10 rounded-full cursor-pointer" onClick={() => onNavigateToProfile(req.id)} />
                               <div>
                                   <p className="text-white font-bold cursor-pointer" onClick={() => onNavigateToProfile(req.id)}>{req.name}</p>
                                   <p className="text-xs text-gray-400">wants to be friends</p>
@@ -132,7 +205,7 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
                           </div>
                           <div className="flex gap-2">
                               <button onClick={() => acceptRequest(req.id)} className="p-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500 hover:text-white"><Check size={20} /></button>
-                              <button className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500 hover:text-white"><X size={20} /></button>
+                              <button onClick={() => declineRequest(req.id)} className="p-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500 hover:text-white" title="Decline"><X size={20} /></button>
                           </div>
                       </div>
                   ))}
@@ -140,19 +213,82 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
           </div>
       )}
 
-      {/* My Friends */}
+      <PeopleYouMayKnow
+          currentUser={currentUser}
+          onNavigateToProfile={onNavigateToProfile}
+          onRequestSent={loadData}
+          className="mb-12"
+      />
+
+      {/* My Friends / Sent requests / Blocked */}
       <div>
-          <h3 className="text-xl font-bold text-gray-300 mb-4">My Friends</h3>
+          <div className="flex gap-2 mb-4 border-b border-white/10">
+              {([
+                  ['friends', 'My Friends', myFriends.length],
+                  ['sent', 'Sent requests', sentRequests.length],
+                  ['blocked', 'Blocked', blockedUsers.length]
+              ] as const).map(([id, label, count]) => (
+                  <button
+                      key={id}
+                      onClick={() => setTab(id)}
+                      className={`px-4 py-2 -mb-px border-b-2 font-bold transition-colors ${tab === id ? 'border-neon-purple text-white' : 'border-transparent text-gray-500 hover:text-gray-300'}`}
+                  >
+                      {label} {count > 0 && <span className="text-xs text-gray-400 ml-1">{count}</span>}
+                  </button>
+              ))}
+          </div>
+
+          {tab === 'sent' && (
+              <div className="space-y-3">
+                  {sentRequests.map(target => (
+                      <div key={target.id} className="bg-white/5 border border-white/10 p-4 rounded-xl flex items-center justify-between">
+                          <div className="flex items-center gap-3 cursor-pointer" onClick={() => onNavigateToProfile(target.id)}>
+                              <img src={avatarThumbnail(target)} className="w-10 h-10 rounded-full" />
+                              <div>
+                                  <p className="text-white font-bold">{target.name}</p>
+                                  <p className="text-xs text-gray-400">@{target.userId} · waiting for an answer</p>
+                              </div>
+                          </div>
+                          <button onClick={() => cancelRequest(target.id)} className="px-3 py-1.5 text-sm bg-white/5 text-gray-300 rounded-lg hover:bg-red-500/20 hover:text-red-400">
+                              Cancel
+                          </button>
+                      </div>
+                  ))}
+                  {sentRequests.length === 0 && <p className="text-center py-8 text-gray-500">No pending requests.</p>}
+              </div>
+          )}
+
+          {tab === 'blocked' && (
+              <div className="space-y-3">
+                  {blockedUsers.map(blocked => (
+                      <div key={blocked.id} className="bg-white/5 border border-white/10 p-4 rounded-xl flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                              <img src={avatarThumbnail(blocked)} className="w-10 h-10 rounded-full grayscale" />
+                              <div>
+                                  <p className="text-white font-bold">{blocked.name}</p>
+                                  <p className="text-xs text-gray-400">@{blocked.userId}</p>
+                              </div>
+                          </div>
+                          <button onClick={() => unblock(blocked.id)} className="px-3 py-1.5 text-sm bg-white/5 text-gray-300 rounded-lg hover:bg-white/10 hover:text-white">
+                              Unblock
+                          </button>
+                      </div>
+                  ))}
+                  {blockedUsers.length === 0 && <p className="text-center py-8 text-gray-500">You haven't blocked anyone.</p>}
+              </div>
+          )}
+
+          {tab === 'friends' && (
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               {myFriends.map(friend => (
                   <div key={friend.id} className="glass-panel p-4 rounded-xl text-center hover:border-neon-cyan/50 transition-colors group relative">
                       <div className="relative inline-block mb-3">
                           <img 
-                            src={friend.avatar} 
+                            src={avatarThumbnail(friend)} 
                             className="w-20 h-20 rounded-full mx-auto object-cover group-hover:scale-105 transition-transform cursor-pointer"
                             onClick={() => onNavigateToProfile(friend.id)}
                            />
-                          <div className={`absolute bottom-1 right-1 w-4 h-4 rounded-full border-2 border-[#111928] ${friend.status === 'online' ? 'bg-green-500' : 'bg-gray-500'}`}></div>
+                          <PresenceDot status={presence.statusOf(friend.id)} className="absolute bottom-1 right-1 w-4 h-4 border-2 border-[#111928]" />
                       </div>
                       <h4 
                         className="font-bold text-white truncate cursor-pointer hover:text-neon-blue"
@@ -184,6 +320,7 @@ export const Friends: React.FC<FriendsProps> = ({ currentUser, onNavigateToProfi
                   </div>
               )}
           </div>
+          )}
       </div>
     </div>
   );
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, X, Users, Check } from 'lucide-react';
+import { User, FriendSuggestion } from '../../types';
+import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+
+interface PeopleYouMayKnowProps {
+  currentUser: User;
+  onNavigateToProfile: (userId: string) => void;
+  onRequestSent?: () => void;
+  limit?: number;
+  className?: string;
+}
+
+// "Ana, Ben and 3 others"
+const mutualLabel = ({ mutualFriends, mutualFriendCount }: FriendSuggestion) => {
+  const names = mutualFriends.map(f => f.name.split(' ')[0]);
+  const others = mutualFriendCount - names.length;
+  if (others > 0) return `${names.join(', ')} and ${others} ${others === 1 ? 'other' : 'others'}`;
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+};
+
+export const PeopleYouMayKnow: React.FC<PeopleYouMayKnowProps> = ({ currentUser, onNavigateToProfile, onRequestSent, limit = 5, className = '' }) => {
+  const [suggestions, setSuggestions] = useState<FriendSuggestion[]>([]);
+  const [requested, setRequested] = useState<string[]>([]);
+
+  // Reload when the current user changes (new friends, answered requests)
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getFriendSuggestions(currentUser.id, limit).then(result => {
+      if (!cancelled) setSuggestions(result);
+    });
+    return () => { cancelled = true; };
+  }, [currentUser, limit]);
+
+  const handleAdd = async (suggestion: FriendSuggestion) => {
+    const result = await StorageService.sendFriendRequest(currentUser.id, suggestion.user.userId);
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    setRequested(prev => [...prev, suggestion.user.id]);
+    onRequestSent?.();
+  };
+
+  const handleDismiss = async (userId: string) => {
+    setSuggestions(prev => prev.filter(s => s.user.id !== userId));
+    await StorageService.dismissSuggestion(currentUser.id, userId);
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={`glass-panel p-4 rounded-2xl border border-white/10 ${className}`}>
+      <h3 className="font-bold text-white mb-4 flex items-center gap-2">
+        <Users size={18} className="text-neon-cyan" /> People you may know
+      </h3>
+      <div className="space-y-4">
+        {suggestions.map(suggestion => {
+          const { user, mutualFriends, mutualFriendCount, sharedInteractions } = suggestion;
+          const isRequested = requested.includes(user.id);
+          return (
+            <div key={user.id} className="flex items-start gap-3 group">
+              <img
+                src={avatarThumbnail(user)}
+                className="w-11 h-11 rounded-full object-cover cursor-pointer shrink-0"
+                onClick={() => onNavigateToProfile(user.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-white text-sm truncate cursor-pointer hover:text-neon-blue" onClick={() => onNavigateToProfile(user.id)}>
+                  {user.name}
+                </p>
+                {mutualFriendCount > 0 ? (
+                  <div className="flex items-center gap-1.5 mt-0.5" title={`Friends with ${mutualLabel(suggestion)}`}>
+                    <div className="flex -space-x-2">
+                      {mutualFriends.map(f => (
+                        <img key={f.id} src={avatarThumbnail(f)} className="w-4 h-4 rounded-full border border-[#111928]" />
+                      ))}
+                    </div>
+                    <p className="text-xs text-neon-cyan truncate">
+                      {mutualFriendCount} mutual {mutualFriendCount === 1 ? 'friend' : 'friends'}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-400 truncate mt-0.5">
+                    Active on {sharedInteractions} {sharedInteractions === 1 ? 'post' : 'posts'} you've engaged with
+                  </p>
+                )}
+                {mutualFriendCount > 0 && <p className="text-[11px] text-gray-500 truncate">{mutualLabel(suggestion)}</p>}
+                <button
+                  onClick={() => handleAdd(suggestion)}
+                  disabled={isRequested}
+                  className={`mt-2 px-3 py-1 text-xs rounded-lg flex items-center gap-1 transition-colors ${
+                    isRequested ? 'bg-white/5 text-gray-400 cursor-default' : 'bg-neon-blue/20 text-neon-blue hover:bg-neon-blue hover:text-white'
+                  }`}
+                >
+                  {isRequested ? <Check size={14} /> : <UserPlus size={14} />}
+                  {isRequested ? 'Request sent' : 'Add friend'}
+                </button>
+              </div>
+              <button
+                onClick={() => handleDismiss(user.id)}
+                className="text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Don't suggest"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { Bell, Heart, MessageCircle, MessageSquare, UserPlus, CheckCheck } from 'lucide-react';
+import { User, Notification } from '../../types';
+import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { directConversationId } from '../../services/conversations';
+
+interface NotificationsProps {
+  currentUser: User;
+  onNavigateToProfile: (userId: string) => void;
+  onNavigateToConversation: (conversationId: string) => void;
+  onNavigateToPost: (postId: string) => void;
+}
+
+const ICONS = {
+  friend_request: { icon: UserPlus, color: 'text-neon-cyan' },
+  like: { icon: Heart, color: 'text-neon-pink' },
+  comment: { icon: MessageCircle, color: 'text-neon-blue' },
+  message: { icon: MessageSquare, color: 'text-neon-purple' }
+};
+
+const describe = (n: Notification, actorName: string) => {
+  switch (n.type) {
+    case 'friend_request': return `${actorName} sent you a friend request`;
+    case 'like': return `${actorName} liked your post`;
+    case 'comment': return `${actorName} commented on your post`;
+    case 'message': {
+      const where = n.data.groupTitle ? ` in ${n.data.groupTitle}` : '';
+      return (n.data.count || 1) > 1
+        ? `${actorName} sent ${n.data.groupTitle ? '' : 'you '}${n.data.count} messages${where}`
+        : `${actorName} sent ${n.data.groupTitle ? 'a message' : 'you a message'}${where}`;
+    }
+  }
+};
+
+const timeAgo = (ts: number) => {
+  const seconds = Math.floor((Date.now() - ts) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(ts).toLocaleDateString();
+};
+
+export const Notifications: React.FC<NotificationsProps> = ({ currentUser, onNavigateToProfile, onNavigateToConversation, onNavigateToPost }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [actors, setActors] = useState<Record<string, User>>({});
+
+  useEffect(() => {
+    const unsubscribe = StorageService.subscribeToNotifications(currentUser.id, async (items) => {
+        // Fetch any actors we haven't seen yet
+        const missing = Array.from(new Set(items.map(n => n.data.actorId))).filter(id => !actors[id]);
+        const fetched = await Promise.all(missing.map(id => StorageService.getUser(id)));
+        setActors(prev => {
+            const next = { ...prev };
+            fetched.forEach(u => { if (u) next[u.id] = u; });
+            return next;
+        });
+        setNotifications(items);
+    });
+
+    return () => unsubscribe();
+  }, [currentUser.id]);
+
+  const handleOpen = async (n: Notification) => {
+    await StorageService.markNotificationRead(n.id);
+
+    // Message notifications from before conversations point at the sender's direct chat
+    if (n.type === 'message') onNavigateToConversation(n.data.conversationId || directConversationId(currentUser.id, n.data.actorId));
+    else if ((n.type === 'like' || n.type === 'comment') && n.data.postId) onNavigateToPost(n.data.postId);
+    else onNavigateToProfile(n.data.actorId);
+  };
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 pb-24">
+      <div className="flex items-center justify-between mb-8">
+          <h2 className="text-3xl font-bold text-white neon-text flex items-center gap-3">
+              <Bell size={28} className="text-neon-purple" /> Notifications
+          </h2>
+          {unreadCount > 0 && (
+              <button
+                onClick={() => StorageService.markAllNotificationsRead(currentUser.id)}
+                className="flex items-center gap-2 text-sm text-gray-400 hover:text-neon-cyan transition-colors"
+              >
+                  <CheckCheck size={18} /> Mark all as read
+              </button>
+          )}
+      </div>
+
+      <div className="space-y-3">
+          {notifications.map(n => {
+              const actor = actors[n.data.actorId];
+              const { icon: Icon, color } = ICONS[n.type];
+              return (
+                  <div
+                    key={n.id}
+                    onClick={() => handleOpen(n)}
+                    className={`glass-card p-4 rounded-xl flex gap-4 items-center cursor-pointer ${!n.read ? 'border-l-4 border-l-neon-purple' : 'opacity-70'}`}
+                  >
+                      <div className="relative shrink-0">
+                          <img src={avatarThumbnail(actor) || 'https://picsum.photos/50'} className="w-12 h-12 rounded-full object-cover" />
+                          <div className={`absolute -bottom-1 -right-1 p-1 rounded-full bg-[#111928] ${color}`}>
+                              <Icon size={14} />
+                          </div>
+                      </div>
+                      <div className="flex-1 overflow-hidden">
+                          <p className={`text-sm ${!n.read ? 'text-white font-medium' : 'text-gray-300'}`}>
+                              {describe(n, actor?.name || 'Someone')}
+                          </p>
+                          {n.data.preview && <p className="text-sm text-gray-500 truncate">"{n.data.preview}"</p>}
+                          <p className="text-xs text-gray-500 mt-1">{timeAgo(n.createdAt)}</p>
+                      </div>
+                      {!n.read && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); StorageService.markNotificationRead(n.id); }}
+                            className="text-xs text-gray-500 hover:text-neon-cyan shrink-0"
+                          >
+                              Mark read
+                          </button>
+                      )}
+                  </div>
+              );
+          })}
+
+          {notifications.length === 0 && (
+              <div className="glass-panel p-10 rounded-xl text-center text-gray-500">
+                  <Bell size={40} className="mx-auto mb-4 opacity-40" />
+                  <p>You're all caught up.</p>
+              </div>
+          )}
+      </div>
+    </div>
+  );
+};
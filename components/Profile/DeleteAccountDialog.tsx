@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { User } from '../../types';
+import { StorageService, ACCOUNT_DELETION_GRACE_MS } from '../../services/storage';
+
+const GRACE_DAYS = Math.round(ACCOUNT_DELETION_GRACE_MS / (24 * 60 * 60 * 1000));
+
+interface DeleteAccountDialogProps {
+  currentUser: User;
+  onClose: () => void;
+}
+
+// Asks for the password again, schedules the deletion and signs out
+export const DeleteAccountDialog: React.FC<DeleteAccountDialogProps> = ({ currentUser, onClose }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    setError('');
+    setIsDeleting(true);
+    const result = await StorageService.scheduleAccountDeletion(currentUser.id, password);
+    if (!result.success) {
+      setError(result.message);
+      setIsDeleting(false);
+      return;
+    }
+    alert(`${result.message} Log back in before then if you change your mind.`);
+    StorageService.logout();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#111928] border border-red-500/30 rounded-2xl w-full max-w-md p-6 shadow-2xl shadow-red-500/10">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <AlertTriangle size={20} className="text-red-400" /> Delete my account
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={24} /></button>
+        </div>
+
+        <div className="text-sm text-gray-300 space-y-2 mb-4">
+          <p>
+            Your account will be deleted in {GRACE_DAYS} days. You'll be signed out now; log back in before then
+            to keep it.
+          </p>
+          <p className="text-gray-400">
+            After that your profile, posts, direct messages and notifications are erased, and your likes, comments
+            and group messages are removed. This can't be undone.
+          </p>
+        </div>
+
+        <label className="block text-sm text-gray-400 mb-1">Enter your password to confirm</label>
+        <input
+          type="password"
+          autoFocus
+          className="w-full bg-black/30 border border-white/10 rounded-xl p-3 text-white focus:border-red-400 outline-none"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && password && handleDelete()}
+        />
+        {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+
+        <div className="mt-6 flex gap-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl border border-white/10 text-gray-300 hover:bg-white/5 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!password || isDeleting}
+            className="flex-1 py-3 rounded-xl bg-red-500/80 text-white font-bold hover:bg-red-500 transition-colors disabled:opacity-50"
+          >
+            {isDeleting ? 'Deleting...' : 'Delete account'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
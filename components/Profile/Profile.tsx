@@ -1,7 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MapPin, Calendar, Link as LinkIcon, Camera, MessageSquare, UserPlus, Check, Edit2, X, Download, Save } from 'lucide-react';
-import { User, Post } from '../../types';
-import { StorageService } from '../../services/storage';
+import { MapPin, Calendar, Link as LinkIcon, Camera, MessageSquare, UserPlus, Check, Edit2, X, Download, Save, MoreHorizontal, UserMinus, Ban, Flag, EyeOff, FileDown } from 'lucide-react';
+import { User, FriendshipStatus } from '../../types';
+import { StorageService, getFriendshipStatus } from '../../services/storage';
+import { usePostFeed } from '../UI/usePostFeed';
+import { avatarThumbnail } from '../../services/images';
+import { getPostMedia, mediaDownloadName, uploadErrorMessage } from '../../services/media';
+import { MediaGallery } from '../UI/MediaGallery';
+import { PresenceDot, usePresence } from '../UI/Presence';
+import { ReportDialog } from '../UI/ReportDialog';
+import { DeleteAccountDialog } from './DeleteAccountDialog';
+import { archiveFileName, downloadJson } from '../../services/archive';
 
 interface ProfileProps {
   currentUser: User;
@@ -12,9 +20,12 @@ interface ProfileProps {
 
 export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId, onNavigateToChat, onRefresh }) => {
   const [profileUser, setProfileUser] = useState<User | null>(null);
-  const [userPosts, setUserPosts] = useState<Post[]>([]);
   const [isOwnProfile, setIsOwnProfile] = useState(false);
-  const [friendStatus, setFriendStatus] = useState<'none' | 'friend' | 'sent' | 'received'>('none');
+  const [friendStatus, setFriendStatus] = useState<FriendshipStatus>('none');
+  const [showActions, setShowActions] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   
   // Edit Mode State
@@ -52,52 +63,55 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
               email: foundUser.email || ''
           });
 
-          // Determine Friend Status
-          if (currentUser.friends.includes(foundUser.id)) {
-              setFriendStatus('friend');
-          } else if (foundUser.friendRequests.includes(currentUser.id)) {
-              setFriendStatus('sent');
-          } else if (currentUser.friendRequests.includes(foundUser.id)) {
-              setFriendStatus('received');
-          } else {
-              setFriendStatus('none');
-          }
+          setFriendStatus(getFriendshipStatus(currentUser, foundUser));
       }
       setIsLoading(false);
   };
 
-  // Listen to posts (reuse Feed logic partially or just filter client side for prototype simplicty)
+  // Friend grid: thumbnails of the first nine friends
+  const [gridFriends, setGridFriends] = useState<User[]>([]);
+  const gridFriendIds = profileUser?.friends.slice(0, 9).join(',') || '';
   useEffect(() => {
-      // We subscribe to all posts and filter. In production, use a where query.
-      const unsub = StorageService.subscribeToPosts((allPosts) => {
-          if (profileUser) {
-              const myPosts = allPosts.filter(p => p.authorId === profileUser.id);
-              setUserPosts(myPosts);
-          }
-      });
-      return () => unsub();
-  }, [profileUser?.id]);
+      if (!gridFriendIds) {
+          setGridFriends([]);
+          return;
+      }
+      Promise.all(gridFriendIds.split(',').map(fid => StorageService.getUser(fid)))
+          .then(users => setGridFriends(users.filter((u): u is User => !!u)));
+  }, [gridFriendIds]);
+
+  // This user's posts, a page at a time
+  const postFeed = usePostFeed({ authorId: profileUser?.id, viewerId: currentUser.id }, !!profileUser);
+  const presence = usePresence(profileUser ? [profileUser.id] : []);
+  const userPosts = postFeed.posts;
+  const blockedMe = !!profileUser?.blockedUsers?.includes(currentUser.id);
 
+  // Keyed on the id: currentUser is a new object after every presence heartbeat, and a full
+  // reload would close dialogs and throw away an edit in progress
   useEffect(() => {
       loadProfileData();
-  }, [viewedProfileId, currentUser]);
+  }, [viewedProfileId, currentUser.id]);
+
+  // Later changes to the signed-in user (friends, blocks, their own profile) update in place
+  useEffect(() => {
+      if (!profileUser) return;
+      if (profileUser.id === currentUser.id) setProfileUser(currentUser);
+      setFriendStatus(getFriendshipStatus(currentUser, profileUser));
+  }, [currentUser]);
 
   const handlePhotoUpload = async (type: 'avatar' | 'cover', e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file && profileUser) {
           try {
-              const url = await StorageService.uploadImage(file, `users/${profileUser.id}/${type}_${Date.now()}`);
-              const updatedUser = { ...profileUser };
-              if (type === 'avatar') updatedUser.avatar = url;
-              if (type === 'cover') updatedUser.coverPhoto = url;
-              
-              const success = await StorageService.updateUser(updatedUser);
-              if (success) {
+              const { url, thumbnailUrl } = await StorageService.uploadImage(file, `users/${profileUser.id}/${type}_${Date.now()}`, type);
+              const changes = type === 'avatar' ? { avatar: url, avatarThumbnail: thumbnailUrl } : { coverPhoto: url };
+              const updatedUser = await StorageService.updateUser(profileUser.id, changes);
+              if (updatedUser) {
                   setProfileUser(updatedUser);
                   onRefresh(); 
               }
           } catch (e) {
-              alert("Upload failed.");
+              alert(uploadErrorMessage(e, "Upload failed."));
           }
       }
   };
@@ -112,20 +126,63 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
       document.body.removeChild(link);
   };
 
+  const handleExportData = async () => {
+      setIsExporting(true);
+      try {
+          const archive = await StorageService.exportMyData(currentUser.id);
+          if (archive) downloadJson(archive, archiveFileName('data', currentUser.userId));
+      } catch (e) {
+          console.error(e);
+          alert('Could not build your data download. Please try again.');
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
   const handleFriendAction = async () => {
       if (!profileUser) return;
 
       if (friendStatus === 'none') {
-          await StorageService.sendFriendRequest(currentUser.id, profileUser.userId);
-          setFriendStatus('sent');
+          const result = await StorageService.sendFriendRequest(currentUser.id, profileUser.userId);
+          if (!result.success) alert(result.message);
+          // Sending one back to someone who already asked is accepting theirs
+          else setFriendStatus(result.message === 'You are now friends!' ? 'friend' : 'sent');
           onRefresh();
       } else if (friendStatus === 'received') {
-          await StorageService.acceptFriendRequest(currentUser.id, profileUser.id);
-          setFriendStatus('friend');
+          const result = await StorageService.acceptFriendRequest(currentUser.id, profileUser.id);
+          if (result.success) setFriendStatus('friend');
+          else alert(result.message);
           onRefresh();
       }
   };
 
+  // Everything in the "..." menu: undoing a friendship or request, and blocking
+  const handleMenuAction = async (action: 'unfriend' | 'cancel' | 'decline' | 'block' | 'unblock') => {
+      if (!profileUser) return;
+      setShowActions(false);
+      switch (action) {
+          case 'unfriend':
+              if (!confirm(`Remove ${profileUser.name} from your friends?`)) return;
+              await StorageService.removeFriend(currentUser.id, profileUser.id);
+              break;
+          case 'cancel':
+              await StorageService.cancelFriendRequest(currentUser.id, profileUser.id);
+              break;
+          case 'decline':
+              await StorageService.declineFriendRequest(currentUser.id, profileUser.id);
+              break;
+          case 'block':
+              if (!confirm(`Block ${profileUser.name}? You won't see each other's posts or be able to message or add each other.`)) return;
+              await StorageService.blockUser(currentUser.id, profileUser.id);
+              break;
+          case 'unblock':
+              await StorageService.unblockUser(currentUser.id, profileUser.id);
+              break;
+      }
+      onRefresh();
+      loadProfileData();
+  };
+
   const handleSaveProfile = async () => {
       if (!profileUser) return;
       setEditError('');
@@ -145,16 +202,13 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
           return;
       }
 
-      const updatedUser: User = {
-          ...profileUser,
+      const updatedUser = await StorageService.updateUser(profileUser.id, {
           name: editForm.name,
           userId: editForm.userId,
           bio: editForm.bio,
           email: editForm.email
-      };
-
-      const success = await StorageService.updateUser(updatedUser);
-      if (success) {
+      });
+      if (updatedUser) {
           setProfileUser(updatedUser);
           setIsEditing(false);
           onRefresh();
@@ -205,12 +259,15 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                       <button onClick={() => handleDownload(profileUser.avatar, `neobook_avatar_${profileUser.userId}.png`)} className="p-2 hover:text-neon-blue"><Download size={24} /></button>
                   </div>
                   <input type="file" ref={avatarInputRef} className="hidden" accept="image/*" onChange={(e) => handlePhotoUpload('avatar', e)} />
-                  <div className={`absolute bottom-2 right-2 w-4 h-4 rounded-full border-2 border-white ${profileUser.status === 'online' ? 'bg-green-500' : 'bg-gray-500'}`}></div>
+                  <PresenceDot status={presence.statusOf(profileUser.id)} className="absolute bottom-2 right-2 w-4 h-4 border-2 border-white" />
               </div>
               
               <div className="flex-1 pb-2">
                   <h1 className="text-3xl font-bold text-white">{profileUser.name}</h1>
                   <p className="text-neon-purple font-mono">@{profileUser.userId}</p>
+                  {!isOwnProfile && presence.lastSeenOf(profileUser.id) && (
+                      <p className="text-sm text-gray-400 mt-1">{presence.lastSeenOf(profileUser.id)}</p>
+                  )}
               </div>
 
               <div className="flex gap-3 pb-4">
@@ -222,7 +279,29 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                         >
                             <Edit2 size={18} /> Edit Profile
                         </button>
+                        <button
+                            onClick={handleExportData}
+                            disabled={isExporting}
+                            className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg border border-white/10 transition-all flex items-center gap-2 disabled:opacity-50"
+                            title="Your profile, posts, comments, likes, messages and images as a JSON file"
+                        >
+                            <FileDown size={18} /> {isExporting ? 'Preparing...' : 'Download my data'}
+                        </button>
                       </>
+                  ) : friendStatus === 'blocked' || blockedMe ? (
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-gray-400 flex items-center gap-2">
+                            <Ban size={16} /> {blockedMe ? "You can't interact with this user" : 'You blocked this user'}
+                        </span>
+                        {friendStatus === 'blocked' && (
+                            <button
+                                onClick={() => handleMenuAction('unblock')}
+                                className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg border border-white/10"
+                            >
+                                Unblock
+                            </button>
+                        )}
+                      </div>
                   ) : (
                       <>
                         {friendStatus !== 'friend' && (
@@ -247,6 +326,41 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                             <MessageSquare size={20} />
                             Message
                         </button>
+
+                        <div className="relative">
+                            <button
+                                onClick={() => setShowActions(!showActions)}
+                                className="bg-white/10 hover:bg-white/20 text-white p-2.5 rounded-lg border border-white/10"
+                                title="More"
+                            >
+                                <MoreHorizontal size={20} />
+                            </button>
+                            {showActions && (
+                                <div className="absolute right-0 top-full mt-2 w-52 bg-[#111928] border border-white/10 rounded-xl shadow-2xl overflow-hidden z-20">
+                                    {friendStatus === 'friend' && (
+                                        <button onClick={() => handleMenuAction('unfriend')} className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-gray-200 hover:bg-white/5">
+                                            <UserMinus size={16} /> Unfriend
+                                        </button>
+                                    )}
+                                    {friendStatus === 'sent' && (
+                                        <button onClick={() => handleMenuAction('cancel')} className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-gray-200 hover:bg-white/5">
+                                            <X size={16} /> Cancel request
+                                        </button>
+                                    )}
+                                    {friendStatus === 'received' && (
+                                        <button onClick={() => handleMenuAction('decline')} className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-gray-200 hover:bg-white/5">
+                                            <X size={16} /> Decline request
+                                        </button>
+                                    )}
+                                    <button onClick={() => handleMenuAction('block')} className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-red-400 hover:bg-red-500/10">
+                                        <Ban size={16} /> Block
+                                    </button>
+                                    <button onClick={() => { setShowActions(false); setIsReporting(true); }} className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-gray-200 hover:bg-white/5">
+                                        <Flag size={16} /> Report
+                                    </button>
+                                </div>
+                            )}
+                        </div>
                       </>
                   )}
               </div>
@@ -284,10 +398,9 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                       <span className="text-neon-purple text-sm">{profileUser.friends.length}</span>
                   </div>
                   <div className="grid grid-cols-3 gap-2">
-                       {profileUser.friends.slice(0, 9).map((fid, i) => (
-                           <div key={i} className="bg-white/5 rounded-lg aspect-square border border-white/5 flex items-center justify-center text-xs text-gray-500">
-                               {/* In real app, fetch friend avatars. Placeholder for now to save reads */}
-                               <div className="w-full h-full bg-gray-800 rounded-lg"></div>
+                       {gridFriends.map(friend => (
+                           <div key={friend.id} title={friend.name} className="bg-white/5 rounded-lg aspect-square border border-white/5 overflow-hidden">
+                               <img src={avatarThumbnail(friend)} alt={friend.name} loading="lazy" className="w-full h-full object-cover" />
                            </div>
                        ))}
                        {profileUser.friends.length === 0 && <p className="col-span-3 text-xs text-gray-500">No connections yet.</p>}
@@ -297,28 +410,31 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
 
           {/* User Posts Feed */}
           <div className="md:col-span-2 space-y-6">
-              {userPosts.length > 0 ? (
+              {postFeed.pendingCount > 0 && (
+                  <button
+                      onClick={postFeed.showPending}
+                      className="w-full py-2 rounded-xl bg-neon-purple/20 text-neon-purple text-sm font-bold hover:bg-neon-purple/30 transition-colors"
+                  >
+                      {postFeed.pendingCount} new {postFeed.pendingCount === 1 ? 'post' : 'posts'}
+                  </button>
+              )}
+              {userPosts.length > 0 || postFeed.isLoading ? (
                   userPosts.map(post => (
                     <div key={post.id} className="glass-card p-5 rounded-2xl">
                         <div className="flex gap-3 items-center mb-4">
-                            <img src={profileUser.avatar} className="w-10 h-10 rounded-full border border-white/10" />
+                            <img src={avatarThumbnail(profileUser)} className="w-10 h-10 rounded-full border border-white/10" />
                             <div>
                                 <h3 className="font-bold text-white">{profileUser.name}</h3>
                                 <p className="text-xs text-gray-400">{new Date(post.createdAt).toLocaleDateString()}</p>
                             </div>
                         </div>
-                        <p className="text-gray-200 mb-3">{post.content}</p>
-                        {post.image && (
-                             <div className="relative group rounded-xl overflow-hidden">
-                                <img src={post.image} className="w-full border border-white/10" />
-                                <button 
-                                    onClick={() => handleDownload(post.image!, `neobook_post_${post.id}.png`)}
-                                    className="absolute bottom-2 right-2 p-2 bg-black/60 backdrop-blur-md rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity hover:bg-neon-purple"
-                                >
-                                    <Download size={20} />
-                                </button>
-                             </div>
+                        {post.hiddenAt && (
+                            <p className="mb-3 text-xs text-amber-300 flex items-center gap-2">
+                                <EyeOff size={14} /> Hidden by a moderator. Only you can see this post.
+                            </p>
                         )}
+                        <p className="text-gray-200 mb-3">{post.content}</p>
+                        <MediaGallery media={getPostMedia(post)} downloadName={mediaDownloadName(post)} />
                     </div>
                   ))
               ) : (
@@ -330,6 +446,8 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                     <p className="text-gray-400 mt-2">This user hasn't shared any futuristic moments.</p>
                 </div>
               )}
+              <div ref={postFeed.sentinelRef} />
+              {postFeed.isLoading && <p className="text-center text-sm text-gray-500">Loading posts...</p>}
           </div>
       </div>
 
@@ -385,6 +503,16 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
                       {editError && <p className="text-red-400 text-sm">{editError}</p>}
                   </div>
 
+                  <div className="mt-6 pt-4 border-t border-white/10 flex items-center justify-between gap-4">
+                      <p className="text-xs text-gray-500">Permanently remove your account and everything you've shared.</p>
+                      <button
+                          onClick={() => { setIsEditing(false); setIsDeletingAccount(true); }}
+                          className="text-sm text-red-400 hover:text-red-300 shrink-0"
+                      >
+                          Delete my account
+                      </button>
+                  </div>
+
                   <div className="mt-8 flex gap-4">
                       <button 
                           onClick={() => setIsEditing(false)}
@@ -403,6 +531,12 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser, viewedProfileId,
               </div>
           </div>
       )}
+
+      {isDeletingAccount && <DeleteAccountDialog currentUser={currentUser} onClose={() => setIsDeletingAccount(false)} />}
+
+      {isReporting && (
+          <ReportDialog reporterId={currentUser.id} target={{ type: 'user', id: profileUser.id }} onClose={() => setIsReporting(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
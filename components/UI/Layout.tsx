@@ -1,6 +1,11 @@
-import React from 'react';
-import { Home, Users, MessageSquare, User as UserIcon, Settings, LogOut, Search, Menu, Code } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Home, Users, MessageSquare, User as UserIcon, Settings, LogOut, Search, Menu, Code, Bell, ChevronDown } from 'lucide-react';
 import { User, ViewState } from '../../types';
+import { StorageService } from '../../services/storage';
+import { avatarThumbnail } from '../../services/images';
+import { PRESENCE_MODES, statusForMode } from '../../services/presence';
+import { can } from '../../services/permissions';
+import { PresenceDot } from './Presence';
 
 interface SidebarProps {
   currentUser: User;
@@ -9,15 +14,38 @@ interface SidebarProps {
   onLogout: () => void;
 }
 
+const Badge: React.FC<{ count: number; className?: string }> = ({ count, className = '' }) => (
+  <span className={`min-w-[20px] h-5 px-1.5 rounded-full bg-neon-pink text-white text-[11px] font-bold flex items-center justify-center shadow-[0_0_8px_#f472b6] ${className}`}>
+    {count > 99 ? '99+' : count}
+  </span>
+);
+
 export const Sidebar: React.FC<SidebarProps> = ({ currentUser, currentView, setView, onLogout }) => {
-  const navItems = [
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [showPresenceMenu, setShowPresenceMenu] = useState(false);
+  const presenceMode = currentUser.presenceMode || 'auto';
+
+  useEffect(() => {
+    const unsubscribe = StorageService.subscribeToNotifications(currentUser.id, (items) => {
+        setUnreadNotifications(items.filter(n => !n.read).length);
+    });
+    return () => unsubscribe();
+  }, [currentUser.id]);
+
+  useEffect(() => {
+    return StorageService.subscribeToUnreadMessageCount(currentUser.id, setUnreadMessages);
+  }, [currentUser.id]);
+
+  const navItems: { id: string; icon: typeof Home; label: string; badge?: number }[] = [
     { id: 'feed', icon: Home, label: 'Home Feed' },
     { id: 'friends', icon: Users, label: 'Friends' },
-    { id: 'messages', icon: MessageSquare, label: 'Messenger' },
+    { id: 'messages', icon: MessageSquare, label: 'Messenger', badge: unreadMessages },
+    { id: 'notifications', icon: Bell, label: 'Notifications', badge: unreadNotifications },
     { id: 'profile', icon: UserIcon, label: 'My Profile' },
   ];
 
-  if (currentUser.isAdmin) {
+  if (can(currentUser, 'access_admin')) {
       navItems.push({ id: 'admin', icon: Code, label: 'Admin Panel' });
   }
 
@@ -47,6 +75,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentUser, currentView, setV
             >
               <item.icon size={22} className={`${currentView === item.id ? 'animate-pulse' : ''}`} />
               <span className="font-medium">{item.label}</span>
+              {!!item.badge && <Badge count={item.badge} className="ml-auto" />}
               {currentView === item.id && (
                 <div className="absolute left-0 top-0 h-full w-1 bg-neon-purple shadow-[0_0_10px_#a855f7]" />
               )}
@@ -55,12 +84,41 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentUser, currentView, setV
         </nav>
 
         <div className="p-4 border-t border-white/10">
-          <div className="flex items-center gap-3 px-2 mb-4">
-            <img src={currentUser.avatar} alt="Profile" className="w-10 h-10 rounded-full border border-neon-cyan/50" />
-            <div className="overflow-hidden">
+          <div className="relative flex items-center gap-3 px-2 mb-4">
+            <div className="relative shrink-0">
+              <img src={avatarThumbnail(currentUser)} alt="Profile" className="w-10 h-10 rounded-full border border-neon-cyan/50" />
+              <PresenceDot status={statusForMode(presenceMode)} className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 border-2 border-[#111928]" />
+            </div>
+            <div className="overflow-hidden flex-1">
                 <p className="text-sm font-bold text-white truncate">{currentUser.name}</p>
                 <p className="text-xs text-gray-500 truncate">@{currentUser.userId}</p>
+                <button
+                  onClick={() => setShowPresenceMenu(!showPresenceMenu)}
+                  className="text-xs text-gray-500 hover:text-white flex items-center gap-1"
+                  title="Set your status"
+                >
+                  {PRESENCE_MODES.find(m => m.mode === presenceMode)?.label}
+                  <ChevronDown size={12} />
+                </button>
             </div>
+            {showPresenceMenu && (
+              <div className="absolute bottom-full left-0 mb-2 w-full bg-[#111928] border border-white/10 rounded-xl shadow-2xl overflow-hidden z-10">
+                {PRESENCE_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      setShowPresenceMenu(false);
+                      StorageService.setPresenceMode(currentUser.id, mode);
+                    }}
+                    className={`w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-white/5 ${mode === presenceMode ? 'text-white' : 'text-gray-400'}`}
+                  >
+                    <PresenceDot status={statusForMode(mode)} className="w-2.5 h-2.5" />
+                    {label}
+                    {mode === 'invisible' && <span className="ml-auto text-[10px] text-gray-500">Appear offline</span>}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           <button 
             onClick={onLogout}
@@ -75,15 +133,16 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentUser, currentView, setV
       {/* Mobile Bottom Nav */}
       <nav className="md:hidden fixed bottom-0 left-0 w-full glass-panel border-t border-white/10 z-50 pb-safe">
         <div className="flex justify-around items-center p-4">
-          {navItems.slice(0, 5).map((item) => (
+          {navItems.slice(0, 6).map((item) => (
             <button
               key={item.id}
               onClick={() => setView(item.id as ViewState)}
-              className={`flex flex-col items-center gap-1 ${
+              className={`relative flex flex-col items-center gap-1 ${
                 currentView === item.id ? 'text-neon-purple' : 'text-gray-500'
               }`}
             >
               <item.icon size={24} />
+              {!!item.badge && <Badge count={item.badge} className="absolute -top-2 left-1/2" />}
               <span className="text-[10px] font-medium">{item.label}</span>
             </button>
           ))}
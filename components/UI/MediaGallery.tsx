@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight, Download, Play } from 'lucide-react';
+import { MediaAttachment } from '../../types';
+
+const download = (item: MediaAttachment, name: string) => {
+  const link = document.createElement('a');
+  link.href = item.url;
+  link.download = name;
+  link.target = "_blank";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+interface LightboxProps {
+  media: MediaAttachment[];
+  startIndex: number;
+  downloadName: (item: MediaAttachment, index: number) => string;
+  onClose: () => void;
+}
+
+// Full-screen viewer: arrows / left-right keys to move, Escape to close
+export const Lightbox: React.FC<LightboxProps> = ({ media, startIndex, downloadName, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  const item = media[index];
+  const step = (delta: number) => setIndex(i => (i + delta + media.length) % media.length);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') step(-1);
+      else if (e.key === 'ArrowRight') step(1);
+    };
+    window.addEventListener('keydown', onKey);
+    // Keep the page behind from scrolling while open
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      document.body.style.overflow = overflow;
+    };
+  }, [media.length, onClose]);
+
+  if (!item) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] bg-black/95 backdrop-blur-sm flex flex-col"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Media viewer"
+      onClick={onClose}
+    >
+      <div className="flex justify-between items-center p-4 text-gray-300" onClick={e => e.stopPropagation()}>
+        <span className="text-sm">{media.length > 1 ? `${index + 1} / ${media.length}` : ''}</span>
+        <div className="flex gap-2">
+          <button onClick={() => download(item, downloadName(item, index))} className="p-2 rounded-full hover:bg-white/10 hover:text-white" title="Download">
+            <Download size={22} />
+          </button>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 hover:text-white" title="Close (Esc)">
+            <X size={24} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-16 min-h-0 relative">
+        {media.length > 1 && (
+          <button
+            onClick={e => { e.stopPropagation(); step(-1); }}
+            className="absolute left-4 p-3 rounded-full bg-white/10 text-white hover:bg-neon-purple/60"
+            title="Previous"
+          >
+            <ChevronLeft size={28} />
+          </button>
+        )}
+        {item.type === 'video' ? (
+          <video
+            key={item.id}
+            src={item.url}
+            poster={item.thumbnailUrl}
+            controls
+            autoPlay
+            className="max-h-full max-w-full rounded-lg"
+            onClick={e => e.stopPropagation()}
+          />
+        ) : (
+          <img
+            key={item.id}
+            src={item.url}
+            alt={item.alt}
+            className="max-h-full max-w-full object-contain rounded-lg"
+            onClick={e => e.stopPropagation()}
+          />
+        )}
+        {media.length > 1 && (
+          <button
+            onClick={e => { e.stopPropagation(); step(1); }}
+            className="absolute right-4 p-3 rounded-full bg-white/10 text-white hover:bg-neon-purple/60"
+            title="Next"
+          >
+            <ChevronRight size={28} />
+          </button>
+        )}
+      </div>
+
+      <p className="p-4 text-center text-sm text-gray-300 min-h-[3.5rem]" onClick={e => e.stopPropagation()}>
+        {item.alt}
+      </p>
+    </div>
+  );
+};
+
+interface MediaGalleryProps {
+  media: MediaAttachment[];
+  downloadName: (item: MediaAttachment, index: number) => string;
+  compact?: boolean; // Thumbnails only, e.g. inside a shared-post preview
+}
+
+const MAX_TILES = 4;
+
+// Post attachments as a 1-4 tile grid; the last tile counts what didn't fit. Opens the Lightbox.
+export const MediaGallery: React.FC<MediaGalleryProps> = ({ media, downloadName, compact = false }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  if (media.length === 0) return null;
+
+  const tiles = media.slice(0, MAX_TILES);
+  const hidden = media.length - tiles.length;
+  const single = tiles.length === 1;
+
+  return (
+    <>
+      <div className={`grid gap-1 rounded-xl overflow-hidden border border-white/10 ${single ? 'grid-cols-1' : 'grid-cols-2'}`}>
+        {tiles.map((item, i) => {
+          const src = compact ? item.thumbnailUrl || item.url : item.url;
+          return (
+            <button
+              key={item.id}
+              onClick={() => setOpenIndex(i)}
+              className={`relative block bg-black/40 group ${tiles.length === 3 && i === 0 ? 'row-span-2' : ''} ${compact ? 'h-48' : single ? '' : 'aspect-square'}`}
+              title={item.alt || 'Open'}
+            >
+              {item.type === 'video' && (!compact || !item.thumbnailUrl) ? (
+                <video src={item.url} poster={item.thumbnailUrl} muted preload="metadata" className="w-full h-full object-cover" />
+              ) : (
+                <img
+                  src={src}
+                  alt={item.alt}
+                  loading="lazy"
+                  className={`w-full object-cover transition-transform duration-700 group-hover:scale-[1.02] ${single && !compact ? 'h-auto' : 'h-full'}`}
+                />
+              )}
+              {item.type === 'video' && (
+                <span className="absolute inset-0 flex items-center justify-center">
+                  <span className="p-3 rounded-full bg-black/60 text-white"><Play size={24} /></span>
+                </span>
+              )}
+              {hidden > 0 && i === tiles.length - 1 && (
+                <span className="absolute inset-0 bg-black/60 flex items-center justify-center text-2xl font-bold text-white">+{hidden}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {openIndex !== null && (
+        <Lightbox media={media} startIndex={openIndex} downloadName={downloadName} onClose={() => setOpenIndex(null)} />
+      )}
+    </>
+  );
+};
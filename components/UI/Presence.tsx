@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { PresenceStatus, UserPresence } from '../../types';
+import { StorageService } from '../../services/storage';
+import { PRESENCE_COLORS, lastSeenLabel, presenceOf } from '../../services/presence';
+
+// How often shown statuses are re-checked, so someone whose tabs closed drops to offline
+const PRESENCE_REFRESH_MS = 30 * 1000;
+
+// Live presence for a set of users: status and "last seen" text by user UUID
+export const usePresence = (userIds: string[]) => {
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const [now, setNow] = useState(Date.now());
+  const key = Array.from(new Set(userIds)).sort().join(',');
+
+  useEffect(() => {
+    if (!key) {
+      setPresence({});
+      return;
+    }
+    return StorageService.subscribeToPresence(key.split(','), setPresence);
+  }, [key]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), PRESENCE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return {
+    statusOf: (userId: string) => presenceOf(presence[userId], now),
+    lastSeenOf: (userId: string) => lastSeenLabel(presence[userId], now)
+  };
+};
+
+export const PresenceDot: React.FC<{ status: PresenceStatus; className?: string }> = ({ status, className = '' }) => (
+  <div className={`rounded-full ${PRESENCE_COLORS[status]} ${className}`} title={status === 'busy' ? 'Busy' : status === 'online' ? 'Online' : 'Offline'} />
+);
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { X, Flag } from 'lucide-react';
+import { ReportReason, ReportTarget } from '../../types';
+import { StorageService } from '../../services/storage';
+import { REPORT_REASONS, REPORT_TARGET_LABELS } from '../../services/moderation';
+
+interface ReportDialogProps {
+  reporterId: string;
+  target: ReportTarget;
+  onClose: () => void;
+}
+
+// Reason picker for reporting a post, comment, user or message to the admins
+export const ReportDialog: React.FC<ReportDialogProps> = ({ reporterId, target, onClose }) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<{ success: boolean, message: string } | null>(null);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setIsSending(true);
+    setResult(await StorageService.reportContent(reporterId, target, reason, details));
+    setIsSending(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-[#111928] border border-white/10 rounded-2xl w-full max-w-md p-6 shadow-2xl shadow-neon-purple/20" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <Flag size={20} className="text-red-400" /> Report {REPORT_TARGET_LABELS[target.type].toLowerCase()}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={24} /></button>
+        </div>
+
+        {result ? (
+          <>
+            <p className={`text-sm ${result.success ? 'text-neon-cyan' : 'text-red-400'}`}>{result.message}</p>
+            <button
+              onClick={onClose}
+              className="w-full mt-6 bg-white/10 text-white py-3 rounded-xl font-bold hover:bg-white/20 transition-colors"
+            >
+              Close
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400 mb-3">What's wrong with it? Reports are only seen by admins.</p>
+            <div className="space-y-2 mb-4">
+              {(Object.keys(REPORT_REASONS) as ReportReason[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setReason(id)}
+                  className={`w-full text-left px-4 py-2 rounded-lg text-sm border ${reason === id ? 'bg-neon-purple/20 border-neon-purple text-white' : 'bg-white/5 border-transparent text-gray-300 hover:bg-white/10'}`}
+                >
+                  {REPORT_REASONS[id]}
+                </button>
+              ))}
+            </div>
+            <textarea
+              className="w-full bg-black/30 border border-white/10 rounded-xl p-3 text-sm text-white focus:border-neon-purple outline-none resize-none"
+              placeholder="Anything else an admin should know? (optional)"
+              rows={3}
+              maxLength={500}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={!reason || isSending}
+              className="w-full mt-4 bg-red-500/80 text-white py-3 rounded-xl font-bold hover:bg-red-500 transition-colors disabled:opacity-50"
+            >
+              {isSending ? 'Sending...' : 'Send report'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
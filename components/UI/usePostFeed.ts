@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Post } from '../../types';
+import { StorageService, PostQuery } from '../../services/storage';
+
+// Paged, live post list for the Feed and Profile.
+// Pages are loaded by cursor as the sentinel element scrolls into view; everything loaded so far
+// stays subscribed, so likes, edits and deletions still show up. Posts by other people that
+// arrive after the list was opened are held back as `pendingCount` until the reader asks for them.
+
+const PAGE_SIZE = 10;
+
+export const usePostFeed = ({ authorId, viewerId }: PostQuery, enabled = true) => {
+  // Cursor of the oldest loaded post; undefined until the first page is in
+  const [through, setThrough] = useState<string | null | undefined>(undefined);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [windowPosts, setWindowPosts] = useState<Post[]>([]);
+  const [seenUntil, setSeenUntil] = useState(() => Date.now());
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+  const generation = useRef(0);
+
+  // Start over when the list itself changes
+  useEffect(() => {
+    generation.current++;
+    loadingRef.current = false;
+    setThrough(undefined);
+    setHasMore(true);
+    setWindowPosts([]);
+    setSeenUntil(Date.now());
+  }, [authorId, viewerId, enabled]);
+
+  const loadMore = useCallback(async () => {
+    if (!enabled || loadingRef.current || (through !== undefined && !hasMore)) return;
+    const started = generation.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const page = await StorageService.getPosts({ cursor: through, limit: PAGE_SIZE, authorId, viewerId });
+      if (started !== generation.current) return; // A page of the previous list
+      setThrough(page.nextCursor);
+      setHasMore(page.hasMore);
+    } finally {
+      if (started === generation.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [enabled, through, hasMore, authorId, viewerId]);
+
+  // First page
+  useEffect(() => {
+    if (enabled && through === undefined) loadMore();
+  }, [enabled, through, loadMore]);
+
+  useEffect(() => {
+    if (!enabled || through === undefined) return;
+    return StorageService.subscribeToPostWindow({ authorId, viewerId }, through, setWindowPosts);
+  }, [enabled, through, authorId, viewerId]);
+
+  // Infinite scroll
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || through === undefined) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, through, loadMore]);
+
+  const isPending = (p: Post) => p.createdAt > seenUntil && p.authorId !== viewerId;
+  const posts = windowPosts.filter(p => !isPending(p));
+  const pending = windowPosts.filter(isPending);
+
+  const showPending = () => {
+    setSeenUntil(Math.max(Date.now(), ...pending.map(p => p.createdAt)));
+  };
+
+  return {
+    posts,
+    pendingCount: pending.length,
+    showPending,
+    hasMore,
+    isLoading: isLoading || through === undefined,
+    sentinelRef
+  };
+};
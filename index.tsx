@@ -1,6 +1,14 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { configureStorage, StorageService } from './services/storage';
+import { createBackend } from './services/backends';
+
+// Backend is chosen once, before anything touches storage
+configureStorage(createBackend(process.env.NEOBOOK_BACKEND, process.env.NEOBOOK_API_URL));
+
+// Accounts whose deletion grace period ran out while nobody had the app open
+StorageService.runScheduledDeletions().catch(e => console.error('Scheduled account deletion failed', e));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
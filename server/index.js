@@ -0,0 +1,150 @@
+// NEOBOOK local data server for the REST backend (services/backends/rest.ts).
+// Zero dependencies: `npm run server`, then start the app with NEOBOOK_BACKEND=rest.
+//
+//   GET    /api/:collection        -> all records
+//   GET    /api/:collection/:id    -> one record (404 if missing)
+//   PUT    /api/:collection/:id    -> insert or replace
+//   DELETE /api/:collection/:id
+//   POST   /api/images?path=...    -> store raw body, returns { url }
+//   GET    /api/images/:id         -> stored image bytes
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DATA_DIR = process.env.NEOBOOK_DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const DB_FILE = path.join(DATA_DIR, 'db.json');
+const IMAGE_DIR = path.join(DATA_DIR, 'images');
+// Large enough for the biggest upload the client allows (a 50 MB video)
+const MAX_BODY_BYTES = 55 * 1024 * 1024;
+const COLLECTION_NAME = /^[a-z_]+$/;
+
+fs.mkdirSync(IMAGE_DIR, { recursive: true });
+
+// --- Persistence ---
+
+const loadDb = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
+  } catch {
+    return {};
+  }
+};
+
+const db = loadDb();
+
+// Write to a temp file and rename so a crash never leaves half a database behind
+const saveDb = () => {
+  const tmp = `${DB_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(db));
+  fs.renameSync(tmp, DB_FILE);
+};
+
+const table = (name) => (db[name] ||= {});
+
+// --- HTTP helpers ---
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...headers
+  });
+  res.end(body);
+};
+
+const sendJson = (res, status, data) =>
+  send(res, status, data === undefined ? undefined : JSON.stringify(data), { 'Content-Type': 'application/json' });
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// --- Routes ---
+
+const handleImages = async (req, res, id) => {
+  if (req.method === 'POST' && !id) {
+    const body = await readBody(req);
+    const imageId = randomUUID();
+    const type = req.headers['content-type'] || 'application/octet-stream';
+    fs.writeFileSync(path.join(IMAGE_DIR, imageId), body);
+    fs.writeFileSync(path.join(IMAGE_DIR, `${imageId}.type`), type);
+    return sendJson(res, 201, { url: `/api/images/${imageId}` });
+  }
+
+  if (req.method === 'GET' && id && /^[\w-]+$/.test(id)) {
+    const file = path.join(IMAGE_DIR, id);
+    if (!fs.existsSync(file)) return sendJson(res, 404, { error: 'Not found' });
+    const type = fs.readFileSync(`${file}.type`, 'utf8');
+    return send(res, 200, fs.readFileSync(file), { 'Content-Type': type, 'Cache-Control': 'public, max-age=31536000, immutable' });
+  }
+
+  return sendJson(res, 405, { error: 'Method not allowed' });
+};
+
+const handleRecords = async (req, res, collection, id) => {
+  const records = table(collection);
+
+  if (!id) {
+    if (req.method === 'GET') return sendJson(res, 200, Object.values(records));
+    return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return records[id] ? sendJson(res, 200, records[id]) : sendJson(res, 404, { error: 'Not found' });
+    case 'PUT': {
+      const record = JSON.parse((await readBody(req)).toString('utf8'));
+      if (!record || record.id !== id) return sendJson(res, 400, { error: 'Record id does not match URL' });
+      records[id] = record;
+      saveDb();
+      return sendJson(res, 204);
+    }
+    case 'DELETE':
+      delete records[id];
+      saveDb();
+      return sendJson(res, 204);
+    default:
+      return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [prefix, collection, rawId] = url.pathname.split('/').filter(Boolean);
+  const id = rawId && decodeURIComponent(rawId);
+
+  try {
+    if (prefix !== 'api' || !collection || !COLLECTION_NAME.test(collection)) {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+    if (collection === 'images') return await handleImages(req, res, id);
+    return await handleRecords(req, res, collection, id);
+  } catch (err) {
+    console.error(err);
+    sendJson(res, err.status || 500, { error: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`NEOBOOK data server listening on http://localhost:${PORT}/api (data in ${DATA_DIR})`);
+});
@@ -0,0 +1,161 @@
+import { User, Post, Message, DailyActivity } from '../types';
+
+// --- ANALYTICS ---
+// Daily counts for the admin dashboard, computed in the browser from the stored records.
+// Days are local calendar days, keyed YYYY-MM-DD so they sort and compare as strings.
+
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Local midnight at the start of the day
+export const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+export const addDays = (day: string, count: number) => {
+  const d = new Date(`${day}T00:00:00`);
+  d.setDate(d.getDate() + count);
+  return dayKey(d.getTime());
+};
+
+// Every day from `from` through `to`, inclusive
+export const daysInRange = (from: string, to: string) => {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+export interface DailyStats {
+  day: string;
+  activeUsers: number;
+  signups: number;
+  posts: number;
+  comments: number;
+  likes: number;
+  messages: number;
+}
+
+export type StatKey = Exclude<keyof DailyStats, 'day'>;
+
+export const STAT_LABELS: Record<StatKey, string> = {
+  activeUsers: 'Active users',
+  signups: 'Signups',
+  posts: 'Posts',
+  comments: 'Comments',
+  likes: 'Likes',
+  messages: 'Messages'
+};
+
+export interface TopPoster {
+  user: User;
+  posts: number;
+  likes: number; // Received on those posts
+  comments: number;
+}
+
+export interface AnalyticsRange {
+  from: string; // Inclusive day keys
+  to: string;
+}
+
+export interface AnalyticsReport {
+  range: AnalyticsRange;
+  days: DailyStats[];
+  // Sums over the range, except activeUsers: the distinct users active on any day of it
+  totals: Record<StatKey, number>;
+  topPosters: TopPoster[];
+}
+
+export interface AnalyticsData {
+  users: User[];
+  posts: Post[];
+  messages: Message[];
+  activity: DailyActivity[];
+}
+
+export const computeAnalytics = (
+  { from, to }: AnalyticsRange,
+  { users, posts, messages, activity }: AnalyticsData,
+  topLimit = 10
+): AnalyticsReport => {
+  const days = new Map(daysInRange(from, to).map(day => [day, {
+    day, activeUsers: 0, signups: 0, posts: 0, comments: 0, likes: 0, messages: 0
+  } as DailyStats]));
+  const bump = (timestamp: number, key: StatKey) => {
+    const stats = days.get(dayKey(timestamp));
+    if (stats) stats[key]++;
+  };
+
+  // Activity records come from heartbeats and logins; lastSeen covers the time before they existed
+  const active = new Map<string, Set<string>>();
+  const markActive = (day: string, userId: string) => {
+    if (!days.has(day)) return;
+    if (!active.has(day)) active.set(day, new Set());
+    active.get(day)!.add(userId);
+  };
+  activity.forEach(a => markActive(a.day, a.userId));
+  users.forEach(u => u.lastSeen && markActive(dayKey(u.lastSeen), u.id));
+  active.forEach((ids, day) => {
+    days.get(day)!.activeUsers = ids.size;
+  });
+
+  users.forEach(u => bump(u.joinedAt, 'signups'));
+
+  const start = dayStart(from);
+  const end = dayStart(addDays(to, 1));
+  const inRange = (timestamp: number) => timestamp >= start && timestamp < end;
+  const posters = new Map<string, Omit<TopPoster, 'user'>>();
+
+  posts.forEach(post => {
+    if (inRange(post.createdAt)) {
+      bump(post.createdAt, 'posts');
+      const poster = posters.get(post.authorId) || { posts: 0, likes: 0, comments: 0 };
+      posters.set(post.authorId, {
+        posts: poster.posts + 1,
+        likes: poster.likes + post.likes.length,
+        comments: poster.comments + post.comments.length
+      });
+    }
+    post.comments.forEach(c => bump(c.createdAt, 'comments'));
+    // Likes from before likedAt was recorded count on the day of the post
+    post.likes.forEach(id => bump(post.likedAt?.[id] ?? post.createdAt, 'likes'));
+  });
+
+  messages.forEach(m => {
+    if (!m.system) bump(m.timestamp, 'messages');
+  });
+
+  const usersById = new Map(users.map(u => [u.id, u]));
+  const topPosters = Array.from(posters.entries())
+    .filter(([id]) => usersById.has(id))
+    .map(([id, counts]) => ({ user: usersById.get(id)!, ...counts }))
+    .sort((a, b) => b.posts - a.posts || b.likes - a.likes)
+    .slice(0, topLimit);
+
+  const series = Array.from(days.values());
+  const sum = (key: StatKey) => series.reduce((total, stats) => total + stats[key], 0);
+  const everyoneActive = new Set<string>();
+  active.forEach(ids => ids.forEach(id => everyoneActive.add(id)));
+
+  return {
+    range: { from, to },
+    days: series,
+    totals: {
+      activeUsers: everyoneActive.size,
+      signups: sum('signups'),
+      posts: sum('posts'),
+      comments: sum('comments'),
+      likes: sum('likes'),
+      messages: sum('messages')
+    },
+    topPosters
+  };
+};
+
+// One row per day, with a header row. Every value is a date or a number, so nothing needs quoting.
+export const toCsv = (days: DailyStats[]) => {
+  const keys = Object.keys(STAT_LABELS) as StatKey[];
+  const header = ['Date', ...keys.map(key => STAT_LABELS[key])].join(',');
+  const rows = days.map(stats => [stats.day, ...keys.map(key => stats[key])].join(','));
+  return [header, ...rows].join('\n');
+};
@@ -0,0 +1,194 @@
+import { User, Post, Comment, Conversation, Message } from '../types';
+import { Collections, CollectionName } from './backends';
+import { readAsDataURL } from './backends/local';
+import { collectStrings } from './backends/indexedDb';
+
+// --- ARCHIVES ---
+// JSON files people can keep outside the browser: a user's own data ("Download my data") and an
+// admin's full backup, which can be restored into another browser or backend.
+
+export const ARCHIVE_VERSION = 1;
+
+// Images uploaded to the IndexedDB backend are blob: URLs that only mean something in the tab that
+// made them, so archives carry them inline: the URL the records use -> a data: URL of the image.
+// data: URLs are already inline; links to other servers (the REST backend, placeholders) stay links.
+export type ArchiveImages = Record<string, string>;
+
+export interface PersonalArchive {
+  format: 'neobook-personal';
+  version: number;
+  exportedAt: number;
+  profile: User;
+  posts: Post[]; // Their own, with everyone's comments
+  comments: (Comment & { postId: string })[]; // Theirs on other people's posts
+  likedPostIds: string[];
+  conversations: Conversation[];
+  messages: Message[]; // Everyone's, in those conversations, minus the ones they deleted for themselves
+  images: ArchiveImages;
+}
+
+export type BackupCollections = { [K in CollectionName]: Collections[K][] };
+
+// Includes password hashes: anyone holding a backup can restore every account
+export interface Backup {
+  format: 'neobook-backup';
+  version: number;
+  exportedAt: number;
+  collections: BackupCollections;
+  images: ArchiveImages;
+}
+
+export const BACKUP_COLLECTIONS: CollectionName[] = [
+  'users', 'posts', 'conversations', 'messages', 'notifications', 'reports', 'audit', 'activity'
+];
+
+const isLocalImage = (s: string) => s.startsWith('blob:');
+
+// Every local image anywhere in `value`, inlined. One that can't be read any more is left out and
+// stays a dead link, as it already was.
+export const inlineImages = async (value: unknown): Promise<ArchiveImages> => {
+  const urls = new Set<string>();
+  collectStrings(value, urls, isLocalImage);
+  const images: ArchiveImages = {};
+  for (const url of urls) {
+    try {
+      images[url] = await readAsDataURL(await (await fetch(url)).blob());
+    } catch (e) {
+      console.warn('Image left out of the archive', url, e);
+    }
+  }
+  return images;
+};
+
+// The archived URLs in `value` that have an inlined image
+export const imagesUsedBy = (value: unknown, images: ArchiveImages) => {
+  const used = new Set<string>();
+  collectStrings(value, used, s => s in images);
+  return Array.from(used);
+};
+
+export const archiveFileName = (kind: 'data' | 'backup', label: string, at = Date.now()) =>
+  `neobook-${kind}-${label}-${new Date(at).toISOString().slice(0, 10)}.json`;
+
+export const downloadJson = (data: unknown, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- VALIDATION ---
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+// Fields the app can't work without, per collection. Optional fields aren't checked.
+const REQUIRED_FIELDS: { [K in CollectionName]: Partial<Record<keyof Collections[K], FieldType>> } = {
+  users: { userId: 'string', name: 'string', friends: 'array', friendRequests: 'array', joinedAt: 'number' },
+  posts: { authorId: 'string', content: 'string', likes: 'array', comments: 'array', createdAt: 'number' },
+  conversations: { participantIds: 'array', isGroup: 'boolean', createdAt: 'number', updatedAt: 'number' },
+  messages: { conversationId: 'string', fromId: 'string', content: 'string', timestamp: 'number', readBy: 'object' },
+  notifications: { userId: 'string', type: 'string', data: 'object', createdAt: 'number' },
+  reports: { reporterId: 'string', target: 'object', status: 'string', createdAt: 'number' },
+  audit: { actorId: 'string', action: 'string', target: 'object', createdAt: 'number' },
+  activity: { userId: 'string', day: 'string', at: 'number' }
+};
+
+const typeOf = (value: unknown): FieldType | 'other' => {
+  if (Array.isArray(value)) return 'array';
+  if (value !== null && typeof value === 'object') return 'object';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as FieldType;
+  return 'other';
+};
+
+const MAX_ERRORS = 20;
+
+// Checks a parsed file before anything is written. Older archives may lack collections added
+// since; those restore as empty.
+export const validateBackup = (data: unknown): { backup?: Backup; errors: string[] } => {
+  const errors: string[] = [];
+  const fail = (message: string) => ({ errors: [message] });
+
+  if (typeOf(data) !== 'object') return fail('The file is not a NEOBOOK backup.');
+  const raw = data as Record<string, unknown>;
+  if (raw.format === 'neobook-personal') return fail('This is a personal data download, not a backup.');
+  if (raw.format !== 'neobook-backup') return fail('The file is not a NEOBOOK backup.');
+  if (typeof raw.version !== 'number' || raw.version > ARCHIVE_VERSION) {
+    return fail(`Backup version ${String(raw.version)} is not supported by this version of NEOBOOK.`);
+  }
+  if (typeOf(raw.collections) !== 'object') return fail('The backup has no collections.');
+  if (raw.images !== undefined && typeOf(raw.images) !== 'object') return fail('The backup images are malformed.');
+
+  const given = raw.collections as Record<string, unknown>;
+  Object.keys(given)
+    .filter(name => !BACKUP_COLLECTIONS.includes(name as CollectionName))
+    .forEach(name => errors.push(`Unknown collection "${name}".`));
+
+  const collections = {} as Record<CollectionName, unknown[]>;
+  for (const name of BACKUP_COLLECTIONS) {
+    const records = given[name] ?? [];
+    if (!Array.isArray(records)) {
+      errors.push(`"${name}" is not a list of records.`);
+      continue;
+    }
+    const ids = new Set<string>();
+    const required = Object.entries(REQUIRED_FIELDS[name]) as [string, FieldType][];
+    records.forEach((record, i) => {
+      if (typeOf(record) !== 'object' || typeof (record as { id?: unknown }).id !== 'string') {
+        errors.push(`${name} #${i + 1} has no id.`);
+        return;
+      }
+      const { id } = record as { id: string };
+      if (ids.has(id)) errors.push(`${name} "${id}" appears more than once.`);
+      ids.add(id);
+      required
+        .filter(([field, type]) => typeOf((record as Record<string, unknown>)[field]) !== type)
+        .forEach(([field, type]) => errors.push(`${name} "${id}": ${field} should be ${/^[ao]/.test(type) ? 'an' : 'a'} ${type}.`));
+    });
+    collections[name] = records;
+  }
+
+  const images = (raw.images ?? {}) as Record<string, unknown>;
+  Object.entries(images)
+    .filter(([, value]) => typeof value !== 'string' || !value.startsWith('data:'))
+    .forEach(([url]) => errors.push(`Image "${url}" is not inline image data.`));
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_ERRORS;
+    return { errors: extra > 0 ? [...errors.slice(0, MAX_ERRORS), `…and ${extra} more problems.`] : errors };
+  }
+  return {
+    backup: {
+      format: 'neobook-backup',
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+      collections: collections as BackupCollections,
+      images: images as ArchiveImages
+    },
+    errors
+  };
+};
+
+// --- RESTORE ---
+
+export type RestoreMode = 'skip' | 'overwrite'; // What to do with records that differ from the stored ones
+
+export interface RestoreConflict {
+  collection: CollectionName;
+  id: string;
+  label: string;
+  reason: string;
+}
+
+export interface RestoreReport {
+  success: boolean;
+  message: string;
+  added: number;
+  replaced: number;
+  unchanged: number;
+  skipped: number;
+  conflicts: RestoreConflict[];
+}
@@ -0,0 +1,130 @@
+import { MessageAttachment } from '../types';
+
+// --- CHAT ATTACHMENTS ---
+// Photos go through the image pipeline like post uploads; other files and voice notes are
+// stored as given, so they are bounded by size (files) and length (voice notes) instead.
+
+export const MAX_FILE_BYTES = 25 * 1024 * 1024;
+export const MAX_VOICE_SECONDS = 120;
+const WAVEFORM_BARS = 40;
+
+export type AttachmentErrorCode = 'too_large' | 'no_microphone';
+
+export class AttachmentError extends Error {
+  constructor(public code: AttachmentErrorCode, message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export const checkFileSize = (file: File) => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new AttachmentError('too_large', `Files must be smaller than ${Math.round(MAX_FILE_BYTES / 1024 / 1024)} MB.`);
+  }
+};
+
+// Photos are shown inline; anything else (including SVG, which we don't rasterize) is a file
+export const isInlineImage = (file: File) => file.type.startsWith('image/') && file.type !== 'image/svg+xml';
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// Label for a message that has no text of its own
+export const attachmentLabel = (attachment: MessageAttachment) => {
+  if (attachment.type === 'image') return 'Photo';
+  if (attachment.type === 'voice') return `Voice message (${formatDuration(attachment.duration || 0)})`;
+  return attachment.name;
+};
+
+// --- VOICE NOTES ---
+
+export interface VoiceRecording {
+  file: File;
+  duration: number;
+  waveform: number[];
+}
+
+export interface VoiceRecorder {
+  stop: () => Promise<VoiceRecording>;
+  cancel: () => void;
+}
+
+// Peak level of each slice of the recording, scaled so the loudest bar is 1. Falls back to a
+// flat line when the browser can't decode its own recording format.
+const computeWaveform = async (blob: Blob): Promise<number[]> => {
+  const AudioCtx = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioCtx) return Array(WAVEFORM_BARS).fill(0.3);
+  const context = new AudioCtx();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const size = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+    const peaks = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+      let peak = 0;
+      for (let i = bar * size; i < Math.min((bar + 1) * size, samples.length); i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+    const max = Math.max(...peaks) || 1;
+    return peaks.map(p => Math.round((p / max) * 100) / 100);
+  } catch {
+    return Array(WAVEFORM_BARS).fill(0.3);
+  } finally {
+    context.close();
+  }
+};
+
+// Asks for the microphone and starts recording straight away. The caller enforces
+// MAX_VOICE_SECONDS (it is already showing the elapsed time).
+export const startVoiceRecording = async (): Promise<VoiceRecorder> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new AttachmentError('no_microphone', 'Voice messages are not supported in this browser.');
+  }
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch {
+    throw new AttachmentError('no_microphone', 'Allow microphone access to record a voice message.');
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start();
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  return {
+    stop: () =>
+      new Promise<VoiceRecording>((resolve) => {
+        recorder.onstop = async () => {
+          release();
+          const type = recorder.mimeType || 'audio/webm';
+          const blob = new Blob(chunks, { type });
+          const ext = type.includes('ogg') ? 'ogg' : type.includes('mp4') ? 'm4a' : 'webm';
+          resolve({
+            file: new File([blob], `voice_${startedAt}.${ext}`, { type }),
+            duration: Math.min((Date.now() - startedAt) / 1000, MAX_VOICE_SECONDS),
+            waveform: await computeWaveform(blob)
+          });
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import { DataBackend, BackendKind } from './types';
+import { createIndexedDbBackend } from './indexedDb';
+import { createLocalBackend } from './local';
+import { createMemoryBackend } from './memory';
+import { createRestBackend } from './rest';
+
+export * from './types';
+export * from './indexes';
+export { createIndexedDbBackend, createLocalBackend, createMemoryBackend, createRestBackend };
+
+// Picks the backend at startup from NEOBOOK_BACKEND (see vite.config.ts). Defaults to IndexedDB.
+export const createBackend = (kind?: string, apiUrl?: string): DataBackend => {
+  switch ((kind || 'indexeddb') as BackendKind) {
+    case 'indexeddb':
+      return createIndexedDbBackend();
+    case 'memory':
+      return createMemoryBackend();
+    case 'rest':
+      return createRestBackend(apiUrl || '/api');
+    case 'local':
+      return createLocalBackend();
+    default:
+      console.warn(`Unknown NEOBOOK_BACKEND "${kind}", falling back to IndexedDB`);
+      return createIndexedDbBackend();
+  }
+};
@@ -0,0 +1,377 @@
+import { DataBackend, Collections, CollectionName, StoredUser } from './types';
+import { INDEXES, ScanOptions, isMultiEntry } from './indexes';
+import { mergeDuplicatePosts, migrateDirectMessages, summarizeConversations } from './repairs';
+import { Post, Message, Conversation } from '../../types';
+
+// --- SCHEMA ---
+const DB_NAME = 'neobook';
+const DB_VERSION = 8;
+
+const IMAGES = 'images';
+const META = 'meta';
+const SESSION_KEY = 'session';
+
+// Images are stored as Blobs and referenced from records by id. Components only ever
+// see object URLs: refs are swapped for object URLs on read and back again on write.
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+interface StoredImage {
+  id: string;
+  path: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+// localStorage keys written by the original backend (services/backends/local.ts)
+const LEGACY_KEYS = {
+  users: 'neobook_users',
+  posts: 'neobook_posts',
+  messages: 'neobook_messages'
+};
+const LEGACY_SESSION_KEY = 'neobook_session';
+
+// --- HELPERS ---
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+
+const toStorageError = (e: unknown) => {
+  if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+    console.error("Storage Quota Exceeded", e);
+    return new Error("Storage full. Please delete some posts or images.");
+  }
+  return e;
+};
+
+const newImageId = () => `img-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [meta, data] = dataUrl.split(',');
+  const type = meta.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+// Rewrites every string in a record (deeply) through `replace`
+export const mapStrings = (value: any, replace: (s: string) => string): any => {
+  if (typeof value === 'string') return replace(value);
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, replace));
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(value)) out[key] = mapStrings(value[key], replace);
+    return out;
+  }
+  return value;
+};
+
+export const collectStrings = (value: any, found: Set<string>, test: (s: string) => boolean) => {
+  if (typeof value === 'string') {
+    if (test(value)) found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => collectStrings(v, found, test));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(v => collectStrings(v, found, test));
+  }
+};
+
+// --- MIGRATIONS ---
+// Each entry upgrades the schema from (version - 1) to version inside the versionchange transaction.
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const readLegacy = <T>(key: string): T[] => {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Pulls the whole localStorage database in, moving inline Base64 images into the image store.
+// The legacy keys are left in place so switching back to NEOBOOK_BACKEND=local still works.
+const importLegacyLocalStorage = (tx: IDBTransaction) => {
+  const images = tx.objectStore(IMAGES);
+  const inlineImage = (value: string, path: string) => {
+    if (!value.startsWith('data:image/')) return value;
+    const id = newImageId();
+    images.put({ id, path, blob: dataUrlToBlob(value), createdAt: Date.now() } as StoredImage);
+    return `${IMAGE_REF_PREFIX}${id}`;
+  };
+
+  const users = tx.objectStore('users');
+  readLegacy<StoredUser>(LEGACY_KEYS.users).forEach(u => {
+    users.put({
+      ...u,
+      avatar: inlineImage(u.avatar, `users/${u.id}/avatar`),
+      coverPhoto: inlineImage(u.coverPhoto, `users/${u.id}/cover`)
+    });
+  });
+
+  const posts = tx.objectStore('posts');
+  mergeDuplicatePosts(readLegacy<Post>(LEGACY_KEYS.posts)).posts.forEach(p => {
+    posts.put(p.image ? { ...p, image: inlineImage(p.image, `posts/${p.authorId}/${p.id}`) } : p);
+  });
+
+  const messages = tx.objectStore('messages');
+  readLegacy<Message>(LEGACY_KEYS.messages).forEach(m => messages.put(m));
+
+  try {
+    const session = JSON.parse(localStorage.getItem(LEGACY_SESSION_KEY) || 'null');
+    if (session) tx.objectStore(META).put(session, SESSION_KEY);
+  } catch {
+    // No usable legacy session; user simply logs in again
+  }
+};
+
+const createCollectionStore = (db: IDBDatabase, name: CollectionName) => {
+  const store = db.createObjectStore(name, { keyPath: 'id' });
+  Object.entries(INDEXES[name]).forEach(([index, keyPath]) => {
+    store.createIndex(index, keyPath as string | string[], { multiEntry: isMultiEntry(name, index as never) });
+  });
+};
+
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db, tx) => {
+    (['users', 'posts', 'messages'] as const).forEach(name => createCollectionStore(db, name));
+    db.createObjectStore(IMAGES, { keyPath: 'id' });
+    db.createObjectStore(META);
+    importLegacyLocalStorage(tx);
+  },
+  2: (db) => {
+    createCollectionStore(db, 'notifications');
+  },
+  3: (_db, tx) => {
+    // Pagination indexes. Stores created by v1 on a fresh install already have them.
+    const posts = tx.objectStore('posts');
+    (['timeline', 'authorTimeline'] as const).forEach(index => {
+      if (!posts.indexNames.contains(index)) posts.createIndex(index, [...INDEXES.posts[index]]);
+    });
+  },
+  4: (db, tx) => {
+    // Conversations replace fromId/toId pairs; existing messages move into direct conversations
+    createCollectionStore(db, 'conversations');
+    const messages = tx.objectStore('messages');
+    if (messages.indexNames.contains('pair')) messages.deleteIndex('pair');
+    if (!messages.indexNames.contains('conversationId')) messages.createIndex('conversationId', INDEXES.messages.conversationId);
+
+    const conversations = tx.objectStore('conversations');
+    const request = messages.getAll() as IDBRequest<Message[]>;
+    request.onsuccess = () => {
+      const migrated = migrateDirectMessages(request.result);
+      migrated.conversations.forEach(c => conversations.put(c));
+      migrated.messages.forEach(m => messages.put(m));
+    };
+  },
+  5: (_db, tx) => {
+    // Last-message / unread summaries on conversations. Those created by v4 in this same upgrade
+    // already have one (they aren't in the store yet when this reads it).
+    const conversations = tx.objectStore('conversations');
+    const request = conversations.getAll() as IDBRequest<Conversation[]>;
+    request.onsuccess = () => {
+      const stale = request.result.filter(c => !c.unread);
+      if (stale.length === 0) return;
+      const messagesRequest = tx.objectStore('messages').getAll() as IDBRequest<Message[]>;
+      messagesRequest.onsuccess = () => {
+        summarizeConversations(stale, messagesRequest.result).conversations.forEach(c => conversations.put(c));
+      };
+    };
+  },
+  6: (_db, tx) => {
+    // Sent friend requests and blocks, looked up from the other side. Fresh installs have them from v1.
+    const users = tx.objectStore('users');
+    (['requestedBy', 'blockedBy'] as const).forEach(index => {
+      if (!users.indexNames.contains(index)) users.createIndex(index, INDEXES.users[index], { multiEntry: true });
+    });
+  },
+  7: (db) => {
+    // Moderation: user reports and the admin audit log
+    createCollectionStore(db, 'reports');
+    createCollectionStore(db, 'audit');
+  },
+  8: (db) => {
+    // Who was active on which day, for the admin analytics
+    createCollectionStore(db, 'activity');
+  }
+};
+
+// Key range for ScanOptions. An empty array sorts after every other key, so [...prefix, []]
+// is the top of a compound-key prefix.
+const scanRange = ({ prefix, after, through, direction }: ScanOptions): IDBKeyRange | undefined => {
+  const low = prefix ? [...prefix] : undefined;
+  const high = prefix ? [...prefix, []] : undefined;
+  const [lower, lowerOpen, upper, upperOpen] = direction === 'asc'
+    ? [after ?? low, after !== undefined, through ?? high, false]
+    : [through ?? low, false, after ?? high, after !== undefined];
+
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return undefined;
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const tx = request.transaction!;
+      for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab shipped a newer schema: step aside so its upgrade can run
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('NEOBOOK database upgrade is waiting for other tabs to close');
+  });
+
+export const createIndexedDbBackend = (): DataBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ||= openDatabase());
+
+  // ref <-> object URL, so each Blob is only materialised once per page load
+  const urlByRef = new Map<string, string>();
+  const refByUrl = new Map<string, string>();
+
+  const remember = (ref: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    urlByRef.set(ref, url);
+    refByUrl.set(url, ref);
+    return url;
+  };
+
+  const hydrate = async <T>(records: T[]): Promise<T[]> => {
+    const missing = new Set<string>();
+    records.forEach(r => collectStrings(r, missing, s => s.startsWith(IMAGE_REF_PREFIX) && !urlByRef.has(s)));
+
+    if (missing.size > 0) {
+      const store = (await db()).transaction(IMAGES).objectStore(IMAGES);
+      await Promise.all(Array.from(missing, async ref => {
+        const image = await promisify(store.get(ref.slice(IMAGE_REF_PREFIX.length)) as IDBRequest<StoredImage | undefined>);
+        if (image) remember(ref, image.blob);
+      }));
+    }
+
+    return records.map(r => mapStrings(r, s => urlByRef.get(s) || s));
+  };
+
+  const dehydrate = <T>(record: T): T => mapStrings(record, s => refByUrl.get(s) || s);
+
+  const write = async (stores: string[], run: (tx: IDBTransaction) => void) => {
+    try {
+      const tx = (await db()).transaction(stores, 'readwrite');
+      run(tx);
+      await completion(tx);
+    } catch (e) {
+      throw toStorageError(e);
+    }
+  };
+
+  return {
+    name: 'indexeddb',
+    shared: true,
+
+    getSession: async () => {
+      const store = (await db()).transaction(META).objectStore(META);
+      return (await promisify(store.get(SESSION_KEY) as IDBRequest<string | undefined>)) || null;
+    },
+
+    setSession: (uid) =>
+      write([META], tx => {
+        if (uid) tx.objectStore(META).put(uid, SESSION_KEY);
+        else tx.objectStore(META).delete(SESSION_KEY);
+      }),
+
+    list: async <K extends CollectionName>(collection: K) => {
+      const store = (await db()).transaction(collection).objectStore(collection);
+      return hydrate(await promisify(store.getAll() as IDBRequest<Collections[K][]>));
+    },
+
+    get: async <K extends CollectionName>(collection: K, id: string) => {
+      const store = (await db()).transaction(collection).objectStore(collection);
+      const record = await promisify(store.get(id) as IDBRequest<Collections[K] | undefined>);
+      return record && (await hydrate([record]))[0];
+    },
+
+    put: (collection, record) =>
+      write([collection], tx => {
+        tx.objectStore(collection).put(dehydrate(record));
+      }),
+
+    // One readwrite transaction, so IndexedDB serialises concurrent updates from other tabs
+    update: async <K extends CollectionName>(collection: K, id: string, mutate: (record: Collections[K]) => Collections[K] | undefined) => {
+      let result: Collections[K] | undefined;
+      await write([collection], tx => {
+        const store = tx.objectStore(collection);
+        const request = store.get(id) as IDBRequest<Collections[K] | undefined>;
+        request.onsuccess = () => {
+          if (!request.result) return;
+          const next = mutate(mapStrings(request.result, s => urlByRef.get(s) || s));
+          if (next) store.put(dehydrate(next));
+          result = next || request.result;
+        };
+      });
+      return result && (await hydrate([result]))[0];
+    },
+
+    remove: (collection, id) =>
+      write([collection], tx => {
+        tx.objectStore(collection).delete(id);
+      }),
+
+    findBy: async <K extends CollectionName>(collection: K, index: string, value: IDBValidKey) => {
+      const store = (await db()).transaction(collection).objectStore(collection);
+      return hydrate(await promisify(store.index(index).getAll(value) as IDBRequest<Collections[K][]>));
+    },
+
+    scan: async <K extends CollectionName>(collection: K, index: string, options: ScanOptions) => {
+      const store = (await db()).transaction(collection).objectStore(collection);
+      const results: Collections[K][] = [];
+      let range: IDBKeyRange | undefined;
+      try {
+        range = scanRange(options);
+      } catch {
+        return []; // Inverted bounds: nothing in between
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.index(index).openCursor(range, options.direction === 'asc' ? 'next' : 'prev');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (options.limit !== undefined && results.length >= options.limit)) return resolve();
+          results.push(cursor.value);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+      return hydrate(results);
+    },
+
+    count: async (collection) => {
+      const store = (await db()).transaction(collection).objectStore(collection);
+      return promisify(store.count());
+    },
+
+    uploadImage: async (file, path) => {
+      const id = newImageId();
+      await write([IMAGES], tx => {
+        tx.objectStore(IMAGES).put({ id, path, blob: file, createdAt: Date.now() } as StoredImage);
+      });
+      return remember(`${IMAGE_REF_PREFIX}${id}`, file);
+    }
+  };
+};
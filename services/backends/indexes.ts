@@ -0,0 +1,97 @@
+import { Collections, CollectionName } from './types';
+
+// Secondary indexes per collection, as IndexedDB key paths. Backends without native
+// indexes answer the same queries by scanning (see matchesIndex).
+export const INDEXES = {
+  // Multi-entry: the users someone has a pending request with, and the users who blocked someone
+  users: { userId: 'userId', requestedBy: 'friendRequests', blockedBy: 'blockedUsers' },
+  posts: {
+    authorId: 'authorId',
+    createdAt: 'createdAt',
+    // Unique, totally ordered keys for cursor pagination (id breaks createdAt ties)
+    timeline: ['createdAt', 'id'],
+    authorTimeline: ['authorId', 'createdAt', 'id']
+  },
+  messages: { conversationId: 'conversationId', timestamp: 'timestamp' },
+  // Multi-entry (see MULTI_ENTRY_INDEXES): every conversation a user is in
+  conversations: { participant: 'participantIds' },
+  notifications: { userId: 'userId' },
+  reports: { status: 'status' },
+  audit: { createdAt: 'createdAt' },
+  activity: { day: 'day' }
+} as const satisfies { [K in CollectionName]: Record<string, string | readonly string[]> };
+
+export type IndexName<K extends CollectionName> = keyof typeof INDEXES[K] & string;
+
+export type IndexKey = string | number | (string | number)[];
+
+// Indexes over an array field: a record matches when any one element equals the key
+// (IndexedDB's multiEntry)
+export const MULTI_ENTRY_INDEXES: { [K in CollectionName]?: readonly IndexName<K>[] } = {
+  users: ['requestedBy', 'blockedBy'],
+  conversations: ['participant']
+};
+
+export const isMultiEntry = <K extends CollectionName>(collection: K, index: IndexName<K>) =>
+  !!(MULTI_ENTRY_INDEXES[collection] as readonly string[] | undefined)?.includes(index);
+
+export interface ScanOptions {
+  prefix?: (string | number)[]; // Leading key parts every result must share (compound indexes)
+  after?: IndexKey; // Exclusive starting key, in scan direction
+  through?: IndexKey; // Inclusive final key, in scan direction
+  direction: 'asc' | 'desc';
+  limit?: number;
+}
+
+const readKey = (record: any, keyPath: string | readonly string[]): IndexKey =>
+  typeof keyPath === 'string' ? record[keyPath] : keyPath.map(path => record[path]);
+
+export const matchesIndex = <K extends CollectionName>(
+  collection: K,
+  index: IndexName<K>,
+  value: IndexKey,
+  record: Collections[K]
+): boolean => {
+  const keyPath = (INDEXES[collection] as Record<string, string | readonly string[]>)[index];
+  const key = readKey(record, keyPath);
+  if (isMultiEntry(collection, index)) {
+    return Array.isArray(key) && key.some(k => JSON.stringify(k) === JSON.stringify(value));
+  }
+  return JSON.stringify(key) === JSON.stringify(value);
+};
+
+// IndexedDB key order: numbers < strings < arrays; arrays compare element by element
+const typeRank = (key: IndexKey) => (typeof key === 'number' ? 0 : typeof key === 'string' ? 1 : 2);
+
+export const compareKeys = (a: IndexKey, b: IndexKey): number => {
+  const rank = typeRank(a) - typeRank(b);
+  if (rank !== 0) return rank;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const c = compareKeys(a[i], b[i]);
+      if (c !== 0) return c;
+    }
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// ScanOptions over plain records, for backends without native ordered indexes
+export const scanRecords = <K extends CollectionName>(
+  collection: K,
+  index: IndexName<K>,
+  records: Collections[K][],
+  { prefix, after, through, direction, limit }: ScanOptions
+): Collections[K][] => {
+  const keyPath = (INDEXES[collection] as Record<string, string | readonly string[]>)[index];
+  const sign = direction === 'asc' ? 1 : -1;
+
+  const keyed = records
+    .map(record => ({ record, key: readKey(record, keyPath) }))
+    .filter(({ key }) => !prefix || (Array.isArray(key) && prefix.every((part, i) => key[i] === part)))
+    .filter(({ key }) => after === undefined || sign * compareKeys(key, after) > 0)
+    .filter(({ key }) => through === undefined || sign * compareKeys(key, through) <= 0)
+    .sort((a, b) => sign * compareKeys(a.key, b.key));
+
+  return (limit === undefined ? keyed : keyed.slice(0, limit)).map(({ record }) => record);
+};
@@ -0,0 +1,134 @@
+import { DataBackend, Collections, CollectionName } from './types';
+import { matchesIndex, scanRecords } from './indexes';
+import { mergeDuplicatePosts, migrateDirectMessages, summarizeConversations } from './repairs';
+import { Post, Message, Conversation } from '../../types';
+
+// --- LOCAL STORAGE KEYS ---
+const KEYS: Record<CollectionName, string> = {
+  users: 'neobook_users',
+  posts: 'neobook_posts',
+  messages: 'neobook_messages',
+  conversations: 'neobook_conversations',
+  notifications: 'neobook_notifications',
+  reports: 'neobook_reports',
+  audit: 'neobook_audit',
+  activity: 'neobook_activity'
+};
+const SESSION_KEY = 'neobook_session';
+
+// --- HELPERS ---
+const getStored = <T>(key: string, def: T): T => {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : def;
+  } catch {
+    return def;
+  }
+};
+
+const setStored = (key: string, data: any) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(data));
+  } catch (e) {
+    console.error("Storage Quota Exceeded", e);
+    throw new Error("Storage full. Please delete some posts or images.");
+  }
+};
+
+export const readAsDataURL = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+// One-time repair of posts duplicated by the old like/comment re-insert; a no-op once clean
+const repairDuplicatePosts = () => {
+  const { posts, merged } = mergeDuplicatePosts(getStored<Post[]>(KEYS.posts, []));
+  if (merged > 0) {
+    setStored(KEYS.posts, posts);
+    console.info(`Merged ${merged} duplicate post ${merged === 1 ? 'copy' : 'copies'}`);
+  }
+};
+
+// One-time move of fromId/toId messages into direct conversations; a no-op once done
+const migrateMessagesToConversations = () => {
+  const existing = getStored<Conversation[]>(KEYS.conversations, []);
+  const { messages, conversations, migrated } = migrateDirectMessages(getStored<Message[]>(KEYS.messages, []), existing);
+  if (migrated > 0) {
+    setStored(KEYS.conversations, [...existing, ...conversations]);
+    setStored(KEYS.messages, messages);
+    console.info(`Moved ${migrated} ${migrated === 1 ? 'message' : 'messages'} into conversations`);
+  }
+};
+
+// One-time backfill of conversation summaries (last message, unread counts); a no-op once done
+const backfillConversationSummaries = () => {
+  const { conversations, summarized } = summarizeConversations(
+    getStored<Conversation[]>(KEYS.conversations, []),
+    getStored<Message[]>(KEYS.messages, [])
+  );
+  if (summarized > 0) setStored(KEYS.conversations, conversations);
+};
+
+// Original single-browser persistence: one JSON array per collection in localStorage
+export const createLocalBackend = (): DataBackend => {
+  repairDuplicatePosts();
+  migrateMessagesToConversations();
+  backfillConversationSummaries();
+  return {
+    name: 'local',
+    shared: true,
+
+    getSession: async () => getStored<string | null>(SESSION_KEY, null),
+
+    setSession: async (uid) => {
+      if (uid) setStored(SESSION_KEY, uid);
+      else localStorage.removeItem(SESSION_KEY);
+    },
+
+    list: async <K extends CollectionName>(collection: K) =>
+      getStored<Collections[K][]>(KEYS[collection], []),
+
+    get: async <K extends CollectionName>(collection: K, id: string) =>
+      getStored<Collections[K][]>(KEYS[collection], []).find(r => r.id === id),
+
+    put: async <K extends CollectionName>(collection: K, record: Collections[K]) => {
+      const records = getStored<Collections[K][]>(KEYS[collection], []);
+      const index = records.findIndex(r => r.id === record.id);
+      if (index !== -1) records[index] = record;
+      else records.push(record);
+      setStored(KEYS[collection], records);
+    },
+
+    // localStorage is synchronous, so nothing can interleave between the read and the write
+    update: async <K extends CollectionName>(collection: K, id: string, mutate: (record: Collections[K]) => Collections[K] | undefined) => {
+      const records = getStored<Collections[K][]>(KEYS[collection], []);
+      const index = records.findIndex(r => r.id === id);
+      if (index === -1) return undefined;
+      const next = mutate(records[index]);
+      if (!next) return records[index];
+      records[index] = next;
+      setStored(KEYS[collection], records);
+      return next;
+    },
+
+    remove: async <K extends CollectionName>(collection: K, id: string) => {
+      const records = getStored<Collections[K][]>(KEYS[collection], []);
+      setStored(KEYS[collection], records.filter(r => r.id !== id));
+    },
+
+    findBy: async (collection, index, value) =>
+      getStored<Collections[typeof collection][]>(KEYS[collection], [])
+        .filter(r => matchesIndex(collection, index, value, r)),
+
+    scan: async (collection, index, options) =>
+      scanRecords(collection, index, getStored<Collections[typeof collection][]>(KEYS[collection], []), options),
+
+    count: async (collection) => getStored<unknown[]>(KEYS[collection], []).length,
+
+    // Images are inlined as Base64 data URLs
+    uploadImage: async (file) => readAsDataURL(file)
+  };
+};
@@ -0,0 +1,77 @@
+import { DataBackend, Collections, CollectionName } from './types';
+import { matchesIndex, scanRecords } from './indexes';
+import { readAsDataURL } from './local';
+import { migrateDirectMessages, summarizeConversations } from './repairs';
+
+export type MemorySeed = { [K in CollectionName]?: Collections[K][] };
+
+// Volatile backend for tests and throwaway sessions: nothing survives a reload
+export const createMemoryBackend = (seed: MemorySeed = {}): DataBackend => {
+  // Seeds may be in the pre-conversation message shape
+  const { messages, conversations: created } = migrateDirectMessages(seed.messages || [], seed.conversations);
+  const { conversations } = summarizeConversations([...(seed.conversations || []), ...created], messages);
+  const tables: { [K in CollectionName]: Map<string, Collections[K]> } = {
+    users: new Map(seed.users?.map(u => [u.id, u])),
+    posts: new Map(seed.posts?.map(p => [p.id, p])),
+    messages: new Map(messages.map(m => [m.id, m])),
+    conversations: new Map(conversations.map(c => [c.id, c])),
+    notifications: new Map(seed.notifications?.map(n => [n.id, n])),
+    reports: new Map(seed.reports?.map(r => [r.id, r])),
+    audit: new Map(seed.audit?.map(e => [e.id, e])),
+    activity: new Map(seed.activity?.map(a => [a.id, a]))
+  };
+  let session: string | null = null;
+
+  // Hand out copies so callers can't mutate stored state without a put
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  return {
+    name: 'memory',
+    shared: false,
+
+    getSession: async () => session,
+
+    setSession: async (uid) => {
+      session = uid;
+    },
+
+    list: async <K extends CollectionName>(collection: K) =>
+      Array.from((tables[collection] as Map<string, Collections[K]>).values(), clone),
+
+    get: async <K extends CollectionName>(collection: K, id: string) => {
+      const record = (tables[collection] as Map<string, Collections[K]>).get(id);
+      return record && clone(record);
+    },
+
+    put: async <K extends CollectionName>(collection: K, record: Collections[K]) => {
+      (tables[collection] as Map<string, Collections[K]>).set(record.id, clone(record));
+    },
+
+    update: async <K extends CollectionName>(collection: K, id: string, mutate: (record: Collections[K]) => Collections[K] | undefined) => {
+      const table = tables[collection] as Map<string, Collections[K]>;
+      const current = table.get(id);
+      if (!current) return undefined;
+      const next = mutate(clone(current));
+      if (!next) return clone(current);
+      table.set(id, clone(next));
+      return clone(next);
+    },
+
+    remove: async <K extends CollectionName>(collection: K, id: string) => {
+      tables[collection].delete(id);
+    },
+
+    findBy: async (collection, index, value) =>
+      Array.from((tables[collection] as Map<string, Collections[typeof collection]>).values())
+        .filter(r => matchesIndex(collection, index, value, r))
+        .map(clone),
+
+    scan: async (collection, index, options) =>
+      scanRecords(collection, index, Array.from((tables[collection] as Map<string, Collections[typeof collection]>).values()), options)
+        .map(clone),
+
+    count: async (collection) => tables[collection].size,
+
+    uploadImage: async (file) => readAsDataURL(file)
+  };
+};
@@ -0,0 +1,99 @@
+import { Post, Message, Conversation } from '../../types';
+import { directConversationId, summarizeConversation } from '../conversations';
+
+// Likes and comments used to be saved by re-inserting the whole post, which left several
+// copies under one id. Folds each group back into a single post: the newest copy's fields,
+// the union of every copy's likes, and every distinct comment in order. A like can't be told
+// apart from a lost concurrent update, so we keep it rather than drop someone's like.
+export const mergeDuplicatePosts = (posts: Post[]): { posts: Post[]; merged: number } => {
+  const byId = new Map<string, Post>();
+  let merged = 0;
+
+  // Copies were unshifted, so the first one seen for an id is the newest
+  posts.forEach(post => {
+    const kept = byId.get(post.id);
+    if (!kept) {
+      byId.set(post.id, post);
+      return;
+    }
+    merged++;
+    const comments = [...kept.comments];
+    post.comments.forEach(c => {
+      if (!comments.some(existing => existing.id === c.id)) comments.push(c);
+    });
+    comments.sort((a, b) => a.createdAt - b.createdAt);
+    byId.set(post.id, {
+      ...kept,
+      likes: Array.from(new Set([...kept.likes, ...post.likes])),
+      comments
+    });
+  });
+
+  return { posts: Array.from(byId.values()), merged };
+};
+
+// Messages used to carry only fromId/toId. Gives each one-to-one pair its direct conversation
+// and points the messages at it; a no-op for messages that already have one.
+export const migrateDirectMessages = (
+  messages: Message[],
+  existing: Conversation[] = []
+): { messages: Message[]; conversations: Conversation[]; migrated: number } => {
+  const conversations = new Map(existing.map(c => [c.id, c]));
+  const created = new Map<string, Conversation>();
+  let migrated = 0;
+
+  const result = messages.map(m => {
+    if (m.conversationId) return m;
+    migrated++;
+    const toId = m.toId || m.fromId;
+    const id = directConversationId(m.fromId, toId);
+    const conversation = created.get(id) || conversations.get(id);
+    if (!conversation) {
+      created.set(id, {
+        id,
+        participantIds: Array.from(new Set([m.fromId, toId])),
+        isGroup: false,
+        createdBy: m.fromId,
+        createdAt: m.timestamp,
+        updatedAt: m.timestamp
+      });
+    } else if (created.has(id)) {
+      conversation.createdAt = Math.min(conversation.createdAt, m.timestamp);
+      conversation.updatedAt = Math.max(conversation.updatedAt, m.timestamp);
+    }
+    return {
+      ...m,
+      conversationId: id,
+      readBy: m.read ? { [m.fromId]: m.timestamp, [toId]: m.timestamp } : { [m.fromId]: m.timestamp }
+    };
+  });
+
+  const byConversation = groupByConversation(result);
+  return {
+    messages: result,
+    conversations: Array.from(created.values(), c => summarizeConversation(c, byConversation.get(c.id) || [])),
+    migrated
+  };
+};
+
+const groupByConversation = (messages: Message[]) => {
+  const groups = new Map<string, Message[]>();
+  messages.forEach(m => groups.set(m.conversationId, [...(groups.get(m.conversationId) || []), m]));
+  return groups;
+};
+
+// Conversations saved before they carried a last-message / unread summary get one computed
+// from their messages; a no-op for conversations that already have it.
+export const summarizeConversations = (
+  conversations: Conversation[],
+  messages: Message[]
+): { conversations: Conversation[]; summarized: number } => {
+  const byConversation = groupByConversation(messages);
+  let summarized = 0;
+  const result = conversations.map(c => {
+    if (c.unread) return c;
+    summarized++;
+    return summarizeConversation(c, byConversation.get(c.id) || []);
+  });
+  return { conversations: result, summarized };
+};
@@ -0,0 +1,90 @@
+import { DataBackend, Collections, CollectionName } from './types';
+import { matchesIndex, scanRecords } from './indexes';
+
+// The session stays in this browser; records and images live on the NEOBOOK server (server/index.js)
+const SESSION_KEY = 'neobook_rest_session';
+
+const request = async <T>(baseUrl: string, path: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(`${baseUrl}${path}`, init);
+  if (!res.ok) {
+    throw new Error(`Server error ${res.status} on ${init?.method || 'GET'} ${path}`);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+};
+
+// One record, or undefined when the server says it doesn't exist. Any other failure (server down,
+// 5xx, bad JSON) throws, so it isn't mistaken for a missing record.
+const fetchRecord = async <T>(baseUrl: string, path: string): Promise<T | undefined> => {
+  const res = await fetch(`${baseUrl}${path}`);
+  if (res.status === 404) return undefined;
+  if (!res.ok) throw new Error(`Server error ${res.status} on GET ${path}`);
+  return res.json();
+};
+
+export const createRestBackend = (baseUrl = '/api'): DataBackend => ({
+  name: 'rest',
+  shared: true,
+
+  getSession: async () => localStorage.getItem(SESSION_KEY),
+
+  setSession: async (uid) => {
+    if (uid) localStorage.setItem(SESSION_KEY, uid);
+    else localStorage.removeItem(SESSION_KEY);
+  },
+
+  list: <K extends CollectionName>(collection: K) =>
+    request<Collections[K][]>(baseUrl, `/${collection}`),
+
+  get: <K extends CollectionName>(collection: K, id: string) =>
+    fetchRecord<Collections[K]>(baseUrl, `/${collection}/${encodeURIComponent(id)}`),
+
+  put: async <K extends CollectionName>(collection: K, record: Collections[K]) => {
+    await request<void>(baseUrl, `/${collection}/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(record)
+    });
+  },
+
+  // Not atomic: the server has no conditional writes, so a concurrent PUT between our GET and PUT wins
+  update: async <K extends CollectionName>(collection: K, id: string, mutate: (record: Collections[K]) => Collections[K] | undefined) => {
+    const path = `/${collection}/${encodeURIComponent(id)}`;
+    const current = await fetchRecord<Collections[K]>(baseUrl, path);
+    if (!current) return undefined;
+    const next = mutate(current);
+    if (!next) return current;
+    await request<void>(baseUrl, path, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(next)
+    });
+    return next;
+  },
+
+  remove: async <K extends CollectionName>(collection: K, id: string) => {
+    await request<void>(baseUrl, `/${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+
+  // The server has no secondary indexes yet, so filter and order the full collection client-side
+  findBy: async (collection, index, value) => {
+    const records = await request<Collections[typeof collection][]>(baseUrl, `/${collection}`);
+    return records.filter(r => matchesIndex(collection, index, value, r));
+  },
+
+  scan: async (collection, index, options) => {
+    const records = await request<Collections[typeof collection][]>(baseUrl, `/${collection}`);
+    return scanRecords(collection, index, records, options);
+  },
+
+  count: async (collection) => (await request<unknown[]>(baseUrl, `/${collection}`)).length,
+
+  uploadImage: async (file, path) => {
+    const { url } = await request<{ url: string }>(baseUrl, `/images?path=${encodeURIComponent(path)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file
+    });
+    // The server answers with a path; anchor it to the API origin in case that isn't ours
+    return new URL(url, new URL(baseUrl, window.location.href)).href;
+  }
+});
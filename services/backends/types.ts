@@ -0,0 +1,58 @@
+import { User, Post, Message, Conversation, Notification, Report, AuditEntry, DailyActivity } from '../../types';
+import type { IndexName, IndexKey, ScanOptions } from './indexes';
+
+// Credentials only ever live on the stored record, never on the User handed to components
+export type StoredUser = User & {
+  password?: string; // Legacy plaintext, upgraded to passwordHash on next login
+  passwordHash?: string;
+};
+
+// Every record collection a backend persists, keyed by collection name.
+// Friendships live on the user records (friends / friendRequests).
+export interface Collections {
+  users: StoredUser;
+  posts: Post;
+  messages: Message;
+  conversations: Conversation;
+  notifications: Notification;
+  reports: Report;
+  audit: AuditEntry; // Append-only: StorageService never updates or removes an entry
+  activity: DailyActivity;
+}
+
+export type CollectionName = keyof Collections;
+
+export interface DataBackend {
+  readonly name: string;
+  // Whether other tabs in this browser see the same data (and should hear about writes)
+  readonly shared: boolean;
+
+  // --- Auth ---
+  getSession: () => Promise<string | null>;
+  setSession: (uid: string | null) => Promise<void>;
+
+  // --- Records (users, friends, posts, messages) ---
+  list: <K extends CollectionName>(collection: K) => Promise<Collections[K][]>;
+  get: <K extends CollectionName>(collection: K, id: string) => Promise<Collections[K] | undefined>;
+  // Insert or replace by id
+  put: <K extends CollectionName>(collection: K, record: Collections[K]) => Promise<void>;
+  // Read-modify-write of one record, atomic where the backend allows it. `mutate` must be
+  // synchronous; returning undefined leaves the record untouched. Resolves to the stored result.
+  update: <K extends CollectionName>(
+    collection: K,
+    id: string,
+    mutate: (record: Collections[K]) => Collections[K] | undefined
+  ) => Promise<Collections[K] | undefined>;
+  remove: <K extends CollectionName>(collection: K, id: string) => Promise<void>;
+  // Records whose index key equals `value` (see INDEXES)
+  findBy: <K extends CollectionName>(collection: K, index: IndexName<K>, value: IndexKey) => Promise<Collections[K][]>;
+  // Ordered walk over an index (see ScanOptions), used for cursor pagination
+  scan: <K extends CollectionName>(collection: K, index: IndexName<K>, options: ScanOptions) => Promise<Collections[K][]>;
+  count: (collection: CollectionName) => Promise<number>;
+
+  // --- Images ---
+  // Returns a URL that can be used directly as an <img> src (or <video> src: any media blob is stored as given)
+  uploadImage: (file: Blob, path: string) => Promise<string>;
+}
+
+export type BackendKind = 'indexeddb' | 'local' | 'memory' | 'rest';
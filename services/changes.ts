@@ -0,0 +1,132 @@
+import { DataBackend, CollectionName } from './backends';
+
+// --- CHANGE BUS ---
+// Pushes a notification whenever a key is written, in this tab and (for shared backends) in
+// every other tab of the same browser, so subscribers no longer need to poll.
+
+// 'typing' is a signal rather than a collection: nothing is stored, the change itself carries it
+export type ChangeKey = CollectionName | 'session' | 'typing';
+
+export interface Change {
+  key: ChangeKey;
+  id?: string; // Record id, when the write touched a single record
+  remote: boolean; // True when the write happened in another tab
+  data?: unknown; // Payload of a signal
+}
+
+type Listener = (change: Change) => void;
+
+const CHANNEL_NAME = 'neobook_changes';
+
+const listeners = new Map<ChangeKey, Set<Listener>>();
+
+const dispatch = (change: Change) => {
+  listeners.get(change.key)?.forEach(listener => listener(change));
+};
+
+const dispatchAll = () => {
+  listeners.forEach((_, key) => dispatch({ key, remote: true }));
+};
+
+// Other tabs: BroadcastChannel where supported, otherwise the native storage event
+// (which only carries the raw localStorage key, so every listener re-checks).
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (e: MessageEvent<{ key: ChangeKey; id?: string; data?: unknown }>) => {
+    dispatch({ key: e.data.key, id: e.data.id, data: e.data.data, remote: true });
+  };
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === null || e.key.startsWith('neobook_')) dispatchAll();
+  });
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const ChangeBus = {
+  emit: (key: ChangeKey, id?: string, broadcast = true, data?: unknown) => {
+    dispatch({ key, id, data, remote: false });
+    if (broadcast) channel?.postMessage({ key, id, data });
+  },
+
+  // Per-key listener: called on every write to `key`
+  on: (key: ChangeKey, listener: Listener) => {
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+    return () => {
+      listeners.get(key)?.delete(listener);
+    };
+  },
+
+  // Per-query listener: re-runs `query` when any of `keys` changes and only calls back
+  // when the result is actually different from the last one delivered.
+  watch: <T>(keys: ChangeKey[], query: () => Promise<T>, callback: (result: T) => void) => {
+    let active = true;
+    let last: { value: T } | null = null;
+    let running = false;
+    let rerun = false;
+
+    const run = async () => {
+      // Coalesce bursts of writes into one re-query
+      if (running) {
+        rerun = true;
+        return;
+      }
+      running = true;
+      try {
+        do {
+          rerun = false;
+          const value = await query();
+          if (active && (!last || !isEqual(last.value, value))) {
+            last = { value };
+            callback(value);
+          }
+        } while (rerun && active);
+      } catch (e) {
+        console.error('Subscription query failed', e);
+      } finally {
+        running = false;
+      }
+    };
+
+    const offs = keys.map(key => ChangeBus.on(key, run));
+    run();
+
+    return () => {
+      active = false;
+      offs.forEach(off => off());
+    };
+  }
+};
+
+// Wraps a backend so every write announces itself on the bus
+export const withChangeEvents = (backend: DataBackend): DataBackend => ({
+  ...backend,
+
+  setSession: async (uid) => {
+    await backend.setSession(uid);
+    ChangeBus.emit('session', undefined, backend.shared);
+  },
+
+  put: async (collection, record) => {
+    await backend.put(collection, record);
+    ChangeBus.emit(collection, record.id, backend.shared);
+  },
+
+  update: async (collection, id, mutate) => {
+    let changed = false;
+    const result = await backend.update(collection, id, record => {
+      const next = mutate(record);
+      changed = !!next;
+      return next;
+    });
+    if (changed) ChangeBus.emit(collection, id, backend.shared);
+    return result;
+  },
+
+  remove: async (collection, id) => {
+    await backend.remove(collection, id);
+    ChangeBus.emit(collection, id, backend.shared);
+  }
+});
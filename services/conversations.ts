@@ -0,0 +1,72 @@
+import { User, Conversation, Message, MessagePreview, MessageReceipt } from '../types';
+import { attachmentLabel } from './attachments';
+
+// --- CONVERSATION HELPERS ---
+
+// One-to-one threads have a fixed id per pair of users, so either side finds the same
+// conversation without a lookup and two tabs can't create duplicates
+export const directConversationId = (a: string, b: string) => `dm:${[a, b].sort().join(':')}`;
+
+// The person on the other side of a direct chat (yourself for notes-to-self)
+export const otherParticipantId = (conversation: Conversation, viewerId: string) =>
+  conversation.participantIds.find(id => id !== viewerId) || viewerId;
+
+// Display name: a group's title, or the other person's name, or the members' first names
+export const conversationTitle = (conversation: Conversation, viewerId: string, users: Record<string, User>) => {
+  if (conversation.isGroup && conversation.title) return conversation.title;
+  if (!conversation.isGroup) return users[otherParticipantId(conversation, viewerId)]?.name || 'Unknown user';
+  const names = conversation.participantIds
+    .filter(id => id !== viewerId)
+    .map(id => users[id]?.name.split(' ')[0])
+    .filter(Boolean);
+  return names.length > 0 ? names.join(', ') : 'Just you';
+};
+
+// What a message says in one line: its text, or what it carries when it has none
+export const previewText = (message: Message) => {
+  if (message.deleted) return 'Message deleted';
+  const text = message.content.trim() || (message.attachment ? attachmentLabel(message.attachment) : '');
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+export const previewOf = (message: Message): MessagePreview => ({
+  id: message.id,
+  fromId: message.fromId,
+  content: previewText(message),
+  timestamp: message.timestamp,
+  system: message.system
+});
+
+// Summary fields recomputed from the messages themselves (for data written before summaries)
+export const summarizeConversation = (conversation: Conversation, messages: Message[]): Conversation => {
+  const last = messages.reduce<Message | undefined>((latest, m) => (!latest || m.timestamp > latest.timestamp ? m : latest), undefined);
+  const unread: Record<string, number> = {};
+  conversation.participantIds.forEach(uid => {
+    unread[uid] = messages.filter(m => !m.system && m.fromId !== uid && !m.readBy?.[uid]).length;
+  });
+  return {
+    ...conversation,
+    lastMessage: last && previewOf(last),
+    unread,
+    updatedAt: Math.max(conversation.updatedAt, last?.timestamp || 0)
+  };
+};
+
+export const unreadCount = (conversation: Conversation, userId: string) => conversation.unread?.[userId] || 0;
+
+// Delivered once it has reached every other member, read once they have all read it
+export const messageReceipt = (message: Message, conversation: Conversation): MessageReceipt => {
+  const others = conversation.participantIds.filter(id => id !== message.fromId);
+  if (message.read || others.every(id => message.readBy[id])) return 'read';
+  if (others.every(id => message.deliveredTo?.[id] || message.readBy[id])) return 'delivered';
+  return 'sent';
+};
+
+// "Ana is typing", "Ana and Ben are typing", "3 people are typing"
+export const typingLabel = (userIds: string[], users: Record<string, User>) => {
+  const names = userIds.map(id => users[id]?.name.split(' ')[0] || 'Someone');
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return `${names.length} people are typing...`;
+};
@@ -0,0 +1,63 @@
+import { User, Post } from '../types';
+
+// --- FEED RANKING ---
+// "Top" score = affinity x engagement x recency decay.
+//   affinity:   how close the viewer is to the author (friend > self > stranger), plus a nudge
+//               when friends have engaged with the post
+//   engagement: log-damped likes and comments, comments counting double
+//   recency:    exponential decay with a fixed half-life
+
+export type FeedMode = 'latest' | 'top' | 'friends';
+
+export interface FeedOptions {
+  mode: FeedMode;
+  hideNonFriends: boolean;
+}
+
+const HALF_LIFE_HOURS = 18;
+
+const AFFINITY = {
+  friend: 2,
+  self: 1.3,
+  stranger: 1
+};
+
+const FRIEND_ENGAGEMENT_BONUS = 0.25; // Per friend who liked or commented, capped below
+const MAX_FRIEND_ENGAGEMENT_BONUS = 1;
+
+const isFromFriendOrSelf = (post: Post, viewer: User) =>
+  post.authorId === viewer.id || viewer.friends.includes(post.authorId);
+
+export const scorePost = (post: Post, viewer: User, now = Date.now()): number => {
+  const base = post.authorId === viewer.id
+    ? AFFINITY.self
+    : viewer.friends.includes(post.authorId) ? AFFINITY.friend : AFFINITY.stranger;
+
+  const engagedFriends = new Set([
+    ...post.likes.filter(id => viewer.friends.includes(id)),
+    ...post.comments.map(c => c.authorId).filter(id => viewer.friends.includes(id))
+  ]).size;
+  const affinity = base + Math.min(engagedFriends * FRIEND_ENGAGEMENT_BONUS, MAX_FRIEND_ENGAGEMENT_BONUS);
+
+  const engagement = 1 + Math.log1p(post.likes.length + 2 * post.comments.length);
+
+  const ageHours = Math.max(0, now - post.createdAt) / 3600000;
+  const recency = Math.pow(0.5, ageHours / HALF_LIFE_HOURS);
+
+  return affinity * engagement * recency;
+};
+
+const byNewest = (a: Post, b: Post) => b.createdAt - a.createdAt;
+
+// Filters and orders already-visible posts for the viewer's chosen feed mode
+export const rankPosts = (posts: Post[], viewer: User, { mode, hideNonFriends }: FeedOptions, now = Date.now()): Post[] => {
+  const pool = mode === 'friends' || hideNonFriends
+    ? posts.filter(p => isFromFriendOrSelf(p, viewer))
+    : [...posts];
+
+  if (mode === 'top') {
+    const scores = new Map(pool.map(p => [p.id, scorePost(p, viewer, now)]));
+    return pool.sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || byNewest(a, b));
+  }
+  return pool.sort(byNewest);
+};
@@ -0,0 +1,120 @@
+// --- IMAGE PIPELINE ---
+// Every upload is decoded and redrawn on a canvas before it reaches a backend: that downscales
+// it to the preset's bounds, re-encodes it (WebP, JPEG where the browser can't write WebP) and,
+// because only pixels survive a redraw, drops EXIF/GPS metadata. Orientation is applied while
+// decoding so rotated phone photos still come out upright.
+
+export type ImageKind = 'post' | 'avatar' | 'cover';
+
+export interface ImagePreset {
+  maxWidth: number;
+  maxHeight: number;
+  quality: number; // 0..1, for lossy formats
+}
+
+export const IMAGE_PRESETS: Record<ImageKind, ImagePreset> = {
+  post: { maxWidth: 1600, maxHeight: 1600, quality: 0.82 },
+  avatar: { maxWidth: 512, maxHeight: 512, quality: 0.85 },
+  cover: { maxWidth: 1920, maxHeight: 640, quality: 0.8 }
+};
+
+// Small square-bounded variant for avatars in lists, the friend grid and shared-post previews
+export const THUMBNAIL_PRESET: ImagePreset = { maxWidth: 160, maxHeight: 160, quality: 0.75 };
+
+// Checked before decoding; larger files are refused rather than risk exhausting memory
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+export type ImageErrorCode = 'too_large' | 'not_an_image' | 'unreadable';
+
+export class ImageError extends Error {
+  constructor(public code: ImageErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageError';
+  }
+}
+
+export interface ProcessedImage {
+  image: File;
+  thumbnail: File;
+}
+
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): Canvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const toBlob = (canvas: Canvas, type: string, quality: number): Promise<Blob | null> =>
+  canvas instanceof HTMLCanvasElement
+    ? new Promise(resolve => canvas.toBlob(resolve, type, quality))
+    : canvas.convertToBlob({ type, quality });
+
+const fitWithin = (width: number, height: number, { maxWidth, maxHeight }: ImagePreset) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const render = async (bitmap: ImageBitmap, preset: ImagePreset): Promise<Blob> => {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, preset);
+  const draw = (background?: string) => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return canvas;
+  };
+
+  // Browsers that can't encode WebP silently hand back PNG; fall back to JPEG, which has no
+  // alpha channel, so flatten transparency onto white first
+  const webp = await toBlob(draw(), 'image/webp', preset.quality);
+  if (webp?.type === 'image/webp') return webp;
+  const jpeg = await toBlob(draw('#ffffff'), 'image/jpeg', preset.quality);
+  if (!jpeg) throw new ImageError('unreadable', 'This image could not be processed.');
+  return jpeg;
+};
+
+const renamed = (name: string, blob: Blob, suffix = '') => {
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  const ext = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return new File([blob], `${base}${suffix}.${ext}`, { type: blob.type });
+};
+
+export const processImage = async (file: File, preset: ImagePreset): Promise<ProcessedImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new ImageError('not_an_image', 'Only image files can be uploaded.');
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new ImageError('too_large', `Images must be smaller than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB.`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageError('unreadable', 'This image could not be read. Try a JPEG, PNG or WebP file.');
+  }
+
+  try {
+    const [image, thumbnail] = await Promise.all([render(bitmap, preset), render(bitmap, THUMBNAIL_PRESET)]);
+    return { image: renamed(file.name, image), thumbnail: renamed(file.name, thumbnail, '_thumb') };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Small avatar for lists and chips, falling back to the full one for users who predate thumbnails
+export const avatarThumbnail = (user?: { avatar: string; avatarThumbnail?: string } | null) =>
+  user ? user.avatarThumbnail || user.avatar : undefined;
@@ -0,0 +1,103 @@
+import { Post, MediaAttachment } from '../types';
+import { ImageError, THUMBNAIL_PRESET, processImage } from './images';
+import { AttachmentError } from './attachments';
+
+// --- POST MEDIA ---
+// Videos are kept as uploaded (re-encoding in the browser is too slow), so they are bounded by
+// size and duration instead; their poster frame goes through the image pipeline as a thumbnail.
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+export const MAX_VIDEO_SECONDS = 60;
+
+export type VideoErrorCode = 'too_large' | 'too_long' | 'unreadable';
+
+export class VideoError extends Error {
+  constructor(public code: VideoErrorCode, message: string) {
+    super(message);
+    this.name = 'VideoError';
+  }
+}
+
+export interface ProcessedVideo {
+  video: File;
+  poster: File;
+}
+
+// How long a video gets to load and seek before it counts as unreadable
+const POSTER_TIMEOUT_MS = 15 * 1000;
+
+// Loads the video off-screen and grabs a frame shortly after the start (the very first one is often black)
+const capturePoster = (file: File): Promise<{ poster: Blob; duration: number }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+
+    // Some files load their metadata but never seek (no duration, odd codecs); give up rather than hang
+    const timer = setTimeout(() => fail(), POSTER_TIMEOUT_MS);
+    const fail = () => {
+      clearTimeout(timer);
+      video.onerror = video.onabort = video.onseeked = null;
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      reject(new VideoError('unreadable', 'This video could not be read. Try an MP4 or WebM file.'));
+    };
+
+    video.onerror = fail;
+    video.onabort = fail;
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(0.5, video.duration / 2 || 0);
+    };
+    video.onseeked = () => {
+      clearTimeout(timer);
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d');
+      if (!context) return fail();
+      context.drawImage(video, 0, 0);
+      const duration = video.duration;
+      canvas.toBlob(blob => {
+        if (!blob) return fail();
+        URL.revokeObjectURL(url);
+        resolve({ poster: blob, duration });
+      }, 'image/png');
+    };
+    video.src = url;
+  });
+
+export const processVideo = async (file: File): Promise<ProcessedVideo> => {
+  if (file.size > MAX_VIDEO_BYTES) {
+    throw new VideoError('too_large', `Videos must be smaller than ${Math.round(MAX_VIDEO_BYTES / 1024 / 1024)} MB.`);
+  }
+  const { poster, duration } = await capturePoster(file);
+  if (duration > MAX_VIDEO_SECONDS) {
+    throw new VideoError('too_long', `Videos can be at most ${MAX_VIDEO_SECONDS} seconds long.`);
+  }
+  const { thumbnail } = await processImage(new File([poster], `${file.name}_poster.png`, { type: 'image/png' }), THUMBNAIL_PRESET);
+  return { video: file, poster: thumbnail };
+};
+
+export const mediaTypeOf = (file: File) => (file.type.startsWith('video/') ? 'video' : 'image');
+
+// User-facing reason an upload was refused, or the fallback for unexpected failures
+export const uploadErrorMessage = (e: unknown, fallback: string) =>
+  e instanceof ImageError || e instanceof VideoError || e instanceof AttachmentError ? e.message : fallback;
+
+// File name for saving one of a post's attachments from the lightbox
+export const mediaDownloadName = (post: Post) => (item: MediaAttachment, index: number) => {
+  const mime = item.url.match(/^data:([^;,]+)/)?.[1];
+  const ext = mime?.split('/')[1] || (item.type === 'video' ? 'mp4' : 'png');
+  return `neobook_post_${post.id}_${index + 1}.${ext}`;
+};
+
+// Attachments in display order, including the single `image` of posts made before `media`
+export const getPostMedia = (post: Post): MediaAttachment[] => {
+  if (post.media?.length) return post.media;
+  if (post.image) {
+    return [{ id: `${post.id}-image`, type: 'image', url: post.image, thumbnailUrl: post.imageThumbnail, alt: '' }];
+  }
+  return [];
+};
@@ -0,0 +1,60 @@
+import { AuditAction, ReportReason, ReportTargetType, Suspension, User } from '../types';
+
+// --- MODERATION ---
+// Users report posts, comments, people and messages; moderators and admins work through the open
+// reports, hide or delete content and suspend accounts. Every such action lands in the audit log.
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate: 'Hate speech',
+  violence: 'Violence or threats',
+  nudity: 'Nudity or sexual content',
+  misinformation: 'False information',
+  other: 'Something else'
+};
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'Post',
+  comment: 'Comment',
+  user: 'User',
+  message: 'Message'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `duration` undefined is a permanent ban
+export const SUSPENSION_OPTIONS: { label: string; duration?: number }[] = [
+  { label: '24 hours', duration: DAY_MS },
+  { label: '7 days', duration: 7 * DAY_MS },
+  { label: '30 days', duration: 30 * DAY_MS },
+  { label: 'Permanent ban' }
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  delete_user: 'Deleted user',
+  delete_post: 'Deleted post',
+  delete_comment: 'Deleted comment',
+  delete_message: 'Deleted message',
+  hide_post: 'Hid post',
+  unhide_post: 'Restored post',
+  suspend_user: 'Suspended user',
+  ban_user: 'Banned user',
+  lift_suspension: 'Lifted suspension',
+  resolve_report: 'Resolved report',
+  dismiss_report: 'Dismissed report',
+  change_role: 'Changed role',
+  export_backup: 'Downloaded backup',
+  restore_backup: 'Restored backup'
+};
+
+// Expired suspensions are left on the record and simply stop counting
+export const isSuspended = (user: Pick<User, 'suspension'>, now = Date.now()) =>
+  !!user.suspension && (user.suspension.until === undefined || user.suspension.until > now);
+
+export const suspensionMessage = ({ until, reason }: Suspension) => {
+  const why = reason ? ` Reason: ${reason}` : '';
+  return until === undefined
+    ? `This account has been banned.${why}`
+    : `This account is suspended until ${new Date(until).toLocaleString()}.${why}`;
+};
@@ -0,0 +1,64 @@
+// --- PASSWORD HASHING (Web Crypto PBKDF2) ---
+// Stored format: pbkdf2$<iterations>$<salt (base64)>$<hash (base64)>
+
+const ALGORITHM = 'pbkdf2';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Constant-time comparison so verification time doesn't leak how many bytes matched
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+// A malformed stored hash (bad base64, bad iteration count) never matches rather than throwing
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [algorithm, iterations, salt, hash] = stored.split('$');
+  const rounds = Number(iterations);
+  if (algorithm !== ALGORITHM || !Number.isInteger(rounds) || rounds <= 0 || !salt || !hash) return false;
+
+  try {
+    const candidate = await derive(password, fromBase64(salt), rounds);
+    return timingSafeEqual(candidate, fromBase64(hash));
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,46 @@
+import { Role, User } from '../types';
+
+// --- PERMISSIONS ---
+// What each role may do. StorageService checks these itself on every privileged mutation;
+// components only use them to decide which controls to show.
+
+export type Permission =
+  | 'access_admin' // Open the admin panel
+  | 'review_reports' // See and close reports
+  | 'moderate_content' // Hide or delete anyone's posts, comments and messages
+  | 'suspend_users'
+  | 'delete_users'
+  | 'view_audit_log'
+  | 'view_analytics'
+  | 'manage_roles'
+  | 'manage_backups'; // Download the full backup and restore one
+
+// Lowest to highest
+export const ROLES: Role[] = ['user', 'moderator', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  user: 'User',
+  moderator: 'Moderator',
+  admin: 'Admin'
+};
+
+const MODERATOR_PERMISSIONS: Permission[] = ['access_admin', 'review_reports', 'moderate_content', 'suspend_users'];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  moderator: MODERATOR_PERMISSIONS,
+  admin: [...MODERATOR_PERMISSIONS, 'delete_users', 'view_audit_log', 'view_analytics', 'manage_roles', 'manage_backups']
+};
+
+type RoleHolder = Pick<User, 'role' | 'isAdmin'>;
+
+// Accounts from before roles only have the isAdmin flag
+export const roleOf = (user: RoleHolder): Role => user.role ?? (user.isAdmin ? 'admin' : 'user');
+
+export const can = (user: RoleHolder | null | undefined, permission: Permission) =>
+  !!user && ROLE_PERMISSIONS[roleOf(user)].includes(permission);
+
+// Suspending and deleting only reach people below the actor: moderators can't act on each other,
+// and an admin has to be demoted before anyone can suspend or delete them
+export const outranks = (actor: RoleHolder, target: RoleHolder) =>
+  ROLES.indexOf(roleOf(actor)) > ROLES.indexOf(roleOf(target));
@@ -0,0 +1,48 @@
+import { PresenceMode, PresenceStatus, UserPresence } from '../types';
+
+// --- PRESENCE ---
+// Every open tab of a signed-in user sends a heartbeat (StorageService.trackPresence) that
+// stamps `lastSeen` and writes `status`. Nobody is left to write "offline" when the last tab
+// closes, so readers treat a status as expired once heartbeats stop for PRESENCE_TIMEOUT_MS.
+
+export const HEARTBEAT_MS = 60 * 1000;
+export const PRESENCE_TIMEOUT_MS = 150 * 1000;
+
+export const PRESENCE_MODES: { mode: PresenceMode; label: string }[] = [
+  { mode: 'auto', label: 'Online' },
+  { mode: 'busy', label: 'Busy' },
+  { mode: 'invisible', label: 'Invisible' }
+];
+
+// The status a user's own heartbeat writes for their chosen mode
+export const statusForMode = (mode: PresenceMode = 'auto'): PresenceStatus =>
+  mode === 'invisible' ? 'offline' : mode === 'busy' ? 'busy' : 'online';
+
+// What other people should see right now
+export const presenceOf = (presence: UserPresence | undefined, now = Date.now()): PresenceStatus => {
+  if (!presence?.lastSeen || presence.status === 'offline') return 'offline';
+  return now - presence.lastSeen > PRESENCE_TIMEOUT_MS ? 'offline' : presence.status;
+};
+
+export const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  busy: 'bg-red-500',
+  offline: 'bg-gray-500'
+};
+
+// "Online", "Busy", "Last seen 5 minutes ago", or '' when they've never been seen
+export const lastSeenLabel = (presence: UserPresence | undefined, now = Date.now()) => {
+  const status = presenceOf(presence, now);
+  if (status === 'online') return 'Online';
+  if (status === 'busy') return 'Busy';
+  if (!presence?.lastSeen) return '';
+  const minutes = Math.floor((now - presence.lastSeen) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
+  const days = Math.floor(hours / 24);
+  if (days === 1) return 'Last seen yesterday';
+  if (days < 7) return `Last seen ${days} days ago`;
+  return `Last seen ${new Date(presence.lastSeen).toLocaleDateString()}`;
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { ViewState } from '../types';
+
+// --- ROUTES ---
+// History-based routing. Every ViewState has a path; profiles and chats take a user
+// reference (custom User ID, falling back to the internal UUID) and posts take a post id.
+//
+//   /login  /signup  /feed  /post/:id  /u/:userId  /messages  /messages/:userId
+//   /messages/c/:conversationId  /friends  /notifications  /admin
+
+export interface Route {
+  view: ViewState;
+  userRef?: string; // profile / messages
+  postId?: string; // feed, focused on one post
+  conversationId?: string; // messages, a group conversation
+}
+
+const decode = (segment?: string) => (segment ? decodeURIComponent(segment) : undefined);
+
+export const parseRoute = (pathname: string): Route | null => {
+  const [head, param, subParam] = pathname.split('/').filter(Boolean);
+
+  switch (head) {
+    case undefined:
+    case 'feed':
+      return { view: 'feed' };
+    case 'post':
+      return param ? { view: 'feed', postId: decode(param) } : { view: 'feed' };
+    case 'u':
+      return param ? { view: 'profile', userRef: decode(param) } : null;
+    case 'messages':
+      if (param === 'c' && subParam) return { view: 'messages', conversationId: decode(subParam) };
+      return { view: 'messages', userRef: decode(param) };
+    case 'login':
+    case 'signup':
+    case 'friends':
+    case 'notifications':
+    case 'admin':
+      return { view: head };
+    default:
+      return null;
+  }
+};
+
+export const routeToPath = ({ view, userRef, postId, conversationId }: Route): string => {
+  switch (view) {
+    case 'feed':
+      return postId ? `/post/${encodeURIComponent(postId)}` : '/feed';
+    case 'profile':
+      return userRef ? `/u/${encodeURIComponent(userRef)}` : '/feed';
+    case 'messages':
+      if (conversationId) return `/messages/c/${encodeURIComponent(conversationId)}`;
+      return userRef ? `/messages/${encodeURIComponent(userRef)}` : '/messages';
+    default:
+      return `/${view}`;
+  }
+};
+
+const ROUTE_EVENT = 'neobook:navigate';
+
+export const navigate = (route: Route, { replace = false } = {}) => {
+  const path = routeToPath(route);
+  if (path === window.location.pathname) return;
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  // pushState doesn't fire popstate; tell useRoute ourselves
+  window.dispatchEvent(new Event(ROUTE_EVENT));
+};
+
+const currentRoute = (): Route | null => parseRoute(window.location.pathname);
+
+// Current route, kept in sync with back/forward and navigate(). Null for unknown paths.
+export const useRoute = (): Route | null => {
+  const [route, setRoute] = useState<Route | null>(currentRoute);
+
+  useEffect(() => {
+    const update = () => setRoute(currentRoute());
+    window.addEventListener('popstate', update);
+    window.addEventListener(ROUTE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(ROUTE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,143 @@
+import { User } from '../types';
+
+// --- USER SEARCH INDEX ---
+// In-memory inverted index over name, username, userId and bio. Each query term matches
+// index terms exactly, by prefix, or within a small edit distance, and scores are weighted
+// by field so a handle hit outranks a word buried in someone's bio.
+
+type Field = 'userId' | 'name' | 'username' | 'bio';
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  userId: 3,
+  name: 2.5,
+  username: 2,
+  bio: 1
+};
+
+const MATCH_WEIGHTS = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.4
+};
+
+interface Posting {
+  userId: string; // User UUID
+  field: Field;
+}
+
+export interface UserIndex {
+  users: Map<string, User>;
+  terms: Map<string, Posting[]>;
+}
+
+export interface SearchHit {
+  user: User;
+  score: number;
+}
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Typos allowed grow with term length; short terms must match exactly or by prefix
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions), bailing out past `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+export const buildUserIndex = (users: User[]): UserIndex => {
+  const index: UserIndex = { users: new Map(), terms: new Map() };
+
+  users.forEach(user => {
+    index.users.set(user.id, user);
+    (Object.keys(FIELD_WEIGHTS) as Field[]).forEach(field => {
+      new Set(tokenize(user[field] || '')).forEach(term => {
+        if (!index.terms.has(term)) index.terms.set(term, []);
+        index.terms.get(term)!.push({ userId: user.id, field });
+      });
+    });
+  });
+
+  return index;
+};
+
+// Best score each user earns for one query term
+const scoreTerm = (index: UserIndex, queryTerm: string): Map<string, number> => {
+  const scores = new Map<string, number>();
+  const typos = maxTypos(queryTerm);
+
+  index.terms.forEach((postings, term) => {
+    let match = 0;
+    if (term === queryTerm) match = MATCH_WEIGHTS.exact;
+    else if (term.startsWith(queryTerm)) match = MATCH_WEIGHTS.prefix * (queryTerm.length / term.length) + 0.2;
+    else if (typos > 0) {
+      // Whole term ("jhon" ~ "john"), else the same-length prefix of a longer one ("jhon" ~ "johnathan")
+      const whole = editDistance(queryTerm, term, typos);
+      const prefix = whole <= typos ? whole : editDistance(queryTerm, term.slice(0, queryTerm.length), typos);
+      const distance = Math.min(whole, prefix);
+      if (distance <= typos) {
+        match = MATCH_WEIGHTS.fuzzy * (1 - distance / (typos + 1)) * (whole <= typos ? 1 : 0.6);
+      }
+    }
+    if (match === 0) return;
+
+    postings.forEach(({ userId, field }) => {
+      const score = match * FIELD_WEIGHTS[field];
+      if (score > (scores.get(userId) || 0)) scores.set(userId, score);
+    });
+  });
+
+  return scores;
+};
+
+// Every query term has to match something; users are ranked by their summed term scores
+export const searchUsers = (index: UserIndex, query: string, limit = 20): SearchHit[] => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
+
+  let totals: Map<string, number> | null = null;
+  for (const queryTerm of queryTerms) {
+    const termScores = scoreTerm(index, queryTerm);
+    const next = new Map<string, number>();
+    (totals ? Array.from(totals.keys()) : Array.from(termScores.keys())).forEach(uid => {
+      const score = termScores.get(uid);
+      if (score !== undefined) next.set(uid, (totals?.get(uid) || 0) + score);
+    });
+    totals = next;
+    if (totals.size === 0) break;
+  }
+
+  // A whole-query hit on the handle goes straight to the top
+  const exactHandle = query.trim().toLowerCase();
+
+  return Array.from(totals!.entries())
+    .map(([uid, score]) => {
+      const user = index.users.get(uid)!;
+      return { user, score: user.userId.toLowerCase() === exactHandle ? score + 10 : score };
+    })
+    .sort((a, b) => b.score - a.score || a.user.name.localeCompare(b.user.name))
+    .slice(0, limit);
+};
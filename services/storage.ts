@@ -1,138 +1,660 @@
+import { User, Post, Comment, Message, MessageQuote, MessageAttachment, PresenceMode, UserPresence, Notification, NotificationType, NotificationData, FriendshipStatus, UserSearchResult, FriendSuggestion, PostPage, MediaAttachment, Conversation, MessageDraft, Report, ReportReason, ReportStatus, ReportTarget, AuditAction, AuditEntry, Role, ProfileUpdate } from '../types';
+import { hashPassword, verifyPassword } from './password';
+import { DataBackend, StoredUser, Collections, CollectionName, createLocalBackend } from './backends';
+import { dataUrlToBlob, mapStrings } from './backends/indexedDb';
+import { ChangeBus, withChangeEvents } from './changes';
+import { UserIndex, buildUserIndex, searchUsers } from './search';
+import { ImageKind, ImagePreset, UploadedImage, IMAGE_PRESETS, processImage } from './images';
+import { mediaTypeOf, processVideo } from './media';
+import { directConversationId, previewOf, previewText, unreadCount } from './conversations';
+import { checkFileSize, isInlineImage } from './attachments';
+import { HEARTBEAT_MS, statusForMode } from './presence';
+import { rankSuggestions } from './suggestions';
+import { isSuspended, suspensionMessage } from './moderation';
+import { Permission, ROLE_LABELS, can, outranks, roleOf } from './permissions';
+import { AnalyticsRange, AnalyticsReport, computeAnalytics, dayKey, dayStart, addDays } from './analytics';
+import { ARCHIVE_VERSION, BACKUP_COLLECTIONS, Backup, BackupCollections, PersonalArchive, RestoreConflict, RestoreMode, RestoreReport, imagesUsedBy, inlineImages } from './archive';
 
-import { User, Post, Message } from '../types';
+// --- BACKEND ---
+// Swapped once at startup (see index.tsx); localStorage until then
+let backend: DataBackend = withChangeEvents(createLocalBackend());
 
-// --- LOCAL STORAGE KEYS ---
-const KEYS = {
-  USERS: 'neobook_users',
-  POSTS: 'neobook_posts',
-  MESSAGES: 'neobook_messages',
-  SESSION: 'neobook_session'
+// Search index over all users, rebuilt lazily after any user record changes
+let userIndex: Promise<UserIndex> | null = null;
+ChangeBus.on('users', () => {
+  userIndex = null;
+});
+
+export const configureStorage = (next: DataBackend) => {
+  backend = withChangeEvents(next);
+  userIndex = null;
 };
 
+const getUserIndex = () =>
+  (userIndex ||= backend.list('users').then(users => buildUserIndex(users.map(toPublicUser))));
+
 // --- HELPERS ---
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const getStored = <T>(key: string, def: T): T => {
+const toPublicUser = ({ password, passwordHash, ...user }: StoredUser): User => user;
+
+const PROFILE_FIELDS: (keyof ProfileUpdate)[] = ['name', 'userId', 'bio', 'email', 'avatar', 'avatarThumbnail', 'coverPhoto'];
+
+// Notifications are a side effect of the action that caused them; a failure here
+// must never fail the like / comment / message itself.
+const notify = async (userId: string, type: NotificationType, data: NotificationData) => {
+  if (userId === data.actorId) return;
   try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : def;
+    const recipient = await backend.get('users', userId);
+    if (recipient?.blockedUsers?.includes(data.actorId)) return;
+    if (type === 'message') {
+      // Collapse a burst of messages from one sender into a single unread notification
+      const existing = (await backend.findBy('notifications', 'userId', userId))
+        .find(n => n.type === 'message' && !n.read && n.data.actorId === data.actorId && n.data.conversationId === data.conversationId);
+      if (existing) {
+        await backend.put('notifications', {
+          ...existing,
+          data: { ...data, count: (existing.data.count || 1) + 1 },
+          createdAt: Date.now()
+        });
+        return;
+      }
+    }
+    await backend.put('notifications', {
+      id: `notif-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      type,
+      data,
+      read: false,
+      createdAt: Date.now()
+    });
+  } catch (e) {
+    console.error('Failed to create notification', e);
+  }
+};
+
+// An answered or withdrawn request shouldn't stay in the recipient's notifications
+const clearFriendRequestNotifications = async (userId: string, requesterId: string) => {
+  const stale = (await backend.findBy('notifications', 'userId', userId))
+    .filter(n => n.type === 'friend_request' && n.data.actorId === requesterId);
+  for (const n of stale) {
+    await backend.remove('notifications', n.id);
+  }
+};
+
+// The reason `fromId` can't send to the conversation, or undefined. Blocking closes direct chats
+// both ways; system notices still go through.
+const refuseSend = async (conversation: Conversation, fromId: string, system?: boolean): Promise<string | undefined> => {
+  if (!conversation.participantIds.includes(fromId)) return "You're no longer in this conversation.";
+  if (conversation.isGroup || system) return undefined;
+  const [sender, other] = await Promise.all([
+    backend.get('users', fromId),
+    backend.get('users', conversation.participantIds.find(id => id !== fromId) || fromId)
+  ]);
+  if (!sender || !other || !isBlockedBetween(sender, other)) return undefined;
+  return sender.blockedUsers?.includes(other.id)
+    ? 'You blocked this user. Unblock them from their profile to send messages.'
+    : "You can't reply to this conversation.";
+};
+
+const displayName = async (uid: string) => (await backend.get('users', uid))?.name || 'Someone';
+
+// Membership notices in the thread itself; they don't notify anyone
+const postSystemMessage = (conversationId: string, actorId: string, content: string) =>
+  StorageService.sendMessage({ conversationId, fromId: actorId, content, system: true });
+
+// Typing state is ephemeral: each signal holds for TYPING_TTL unless renewed, is never stored,
+// and reaches other tabs as a 'typing' change. conversationId -> userId -> expiry.
+const TYPING_TTL = 6000;
+const typing = new Map<string, Map<string, number>>();
+
+ChangeBus.on('typing', ({ id, data }) => {
+  if (!id) return;
+  const signal = data as { userId: string; isTyping: boolean } | undefined;
+  const members = typing.get(id) || new Map<string, number>();
+  if (signal) {
+    if (signal.isTyping) {
+      members.set(signal.userId, Date.now() + TYPING_TTL);
+      // Re-announce locally when it lapses so subscribers drop it
+      setTimeout(() => ChangeBus.emit('typing', id, false), TYPING_TTL + 50);
+    } else {
+      members.delete(signal.userId);
+    }
+  }
+  members.forEach((expiry, uid) => {
+    if (expiry <= Date.now()) members.delete(uid);
+  });
+  if (members.size > 0) typing.set(id, members);
+  else typing.delete(id);
+});
+
+// Keeps the conversation list's preview in step when its last message is edited or deleted
+const refreshLastMessage = (msg: Message) =>
+  backend.update('conversations', msg.conversationId, c =>
+    c.lastMessage?.id === msg.id ? { ...c, lastMessage: previewOf(msg) } : undefined
+  );
+
+const excerpt = (text: string) => text.length > 80 ? `${text.slice(0, 77)}...` : text;
+
+// "Deleted for everyone": the bubble stays as a placeholder, its content and extras go
+const blankMessage = ({ reactions, replyTo, editedAt, attachment, ...m }: Message): Message => ({ ...m, content: '', deleted: true });
+
+export const getFriendshipStatus = (viewer: User, target: User): FriendshipStatus => {
+  if (viewer.id === target.id) return 'self';
+  if (viewer.blockedUsers?.includes(target.id)) return 'blocked';
+  if (viewer.friends.includes(target.id)) return 'friend';
+  if (target.friendRequests.includes(viewer.id)) return 'sent';
+  if (viewer.friendRequests.includes(target.id)) return 'received';
+  return 'none';
+};
+
+// Either side blocking the other cuts off requests, messages and each other's content
+export const isBlockedBetween = (a: User, b: User) =>
+  !!a.blockedUsers?.includes(b.id) || !!b.blockedUsers?.includes(a.id);
+
+// Everyone hidden from the user: people they blocked and people who blocked them
+const getBlockedIds = async (userId: string): Promise<Set<string>> => {
+  const [user, blockers] = await Promise.all([backend.get('users', userId), backend.findBy('users', 'blockedBy', userId)]);
+  return new Set([...(user?.blockedUsers || []), ...blockers.map(u => u.id)]);
+};
+
+// A post as the viewer sees it: none at all from a blocked author, and without blocked commenters
+const hideBlocked = (posts: Post[], blocked: Set<string>): Post[] => blocked.size === 0 ? posts : posts
+  .filter(p => !blocked.has(p.authorId))
+  .map(p => (p.comments.some(c => blocked.has(c.authorId)) ? { ...p, comments: p.comments.filter(c => !blocked.has(c.authorId)) } : p));
+
+// Erases a user and everything that points at them: their posts, direct conversations and
+// notifications go; on other people's posts and in groups their likes, comments and reactions
+// are removed and their messages blanked, so threads keep their shape. The user record goes last,
+// so a run that fails halfway can simply be repeated.
+const purgeUser = async (uid: string) => {
+  const without = (ids: string[] | undefined) => ids?.filter(id => id !== uid);
+
+  for (const post of await backend.list('posts')) {
+    if (post.authorId === uid) {
+      await backend.remove('posts', post.id);
+    } else if (post.likes.includes(uid) || post.comments.some(c => c.authorId === uid)) {
+      await backend.update('posts', post.id, p => {
+        const { [uid]: _likedAt, ...likedAt } = p.likedAt || {};
+        return { ...p, likes: without(p.likes)!, ...(p.likedAt && { likedAt }), comments: p.comments.filter(c => c.authorId !== uid) };
+      });
+    }
+  }
+
+  for (const user of await backend.list('users')) {
+    if (user.id === uid) continue;
+    const mentions = [user.friends, user.friendRequests, user.blockedUsers, user.dismissedSuggestions].some(ids => ids?.includes(uid));
+    if (mentions) {
+      await backend.update('users', user.id, u => ({
+        ...u,
+        friends: without(u.friends)!,
+        friendRequests: without(u.friendRequests)!,
+        blockedUsers: without(u.blockedUsers),
+        dismissedSuggestions: without(u.dismissedSuggestions)
+      }));
+    }
+  }
+
+  for (const conversation of await backend.findBy('conversations', 'participant', uid)) {
+    const messages = await backend.findBy('messages', 'conversationId', conversation.id);
+    const remaining = conversation.participantIds.filter(id => id !== uid);
+    if (!conversation.isGroup || remaining.length === 0) {
+      for (const m of messages) await backend.remove('messages', m.id);
+      await backend.remove('conversations', conversation.id);
+      continue;
+    }
+    for (const m of messages) {
+      const theirs = m.fromId === uid && !m.system && !m.deleted;
+      if (!theirs && !m.reactions?.[uid] && m.replyTo?.fromId !== uid) continue;
+      await backend.update('messages', m.id, msg => {
+        const next = theirs ? blankMessage(msg) : { ...msg };
+        if (next.reactions) next.reactions = Object.fromEntries(Object.entries(next.reactions).filter(([id]) => id !== uid));
+        if (next.replyTo?.fromId === uid) delete next.replyTo;
+        return next;
+      });
+    }
+    const last = conversation.lastMessage && await backend.get('messages', conversation.lastMessage.id);
+    await backend.update('conversations', conversation.id, c => {
+      const { [uid]: _count, ...unread } = c.unread || {};
+      return {
+        ...c,
+        participantIds: remaining,
+        createdBy: c.createdBy === uid ? remaining[0] : c.createdBy,
+        unread,
+        lastMessage: last ? previewOf(last) : c.lastMessage
+      };
+    });
+  }
+
+  for (const n of await backend.list('notifications')) {
+    if (n.userId === uid || n.data.actorId === uid) await backend.remove('notifications', n.id);
+  }
+
+  for (const a of await backend.list('activity')) {
+    if (a.userId === uid) await backend.remove('activity', a.id);
+  }
+
+  // Sessions in other tabs and browsers end when observeAuth finds the record gone
+  if ((await backend.getSession()) === uid) await backend.setSession(null);
+  await backend.remove('users', uid);
+};
+
+// Posts shared with specific people are only visible to them and the author, and posts hidden
+// by an admin only to the author
+export const isPostVisibleTo = (post: Post, viewerId: string) =>
+  post.authorId === viewerId || (
+    !post.hiddenAt && (
+      !post.targetUserIds ||
+      post.targetUserIds.length === 0 ||
+      post.targetUserIds.includes(viewerId)
+    )
+  );
+
+// Post cursors are opaque to callers; inside they are the post's [createdAt, id] timeline key
+type PostKey = [number, string];
+
+const encodeCursor = (post: Post) => btoa(JSON.stringify([post.createdAt, post.id]));
+
+const decodeCursor = (cursor: string): PostKey | undefined => {
+  try {
+    const key = JSON.parse(atob(cursor));
+    return Array.isArray(key) && typeof key[0] === 'number' && typeof key[1] === 'string' ? [key[0], key[1]] : undefined;
   } catch {
-    return def;
+    return undefined;
+  }
+};
+
+export interface PostQuery {
+  authorId?: string; // Only this author's posts
+  viewerId?: string; // Hide posts privately shared with other people
+}
+
+// Scan position on the timeline (or the author's timeline) for a post key
+const timelineScan = ({ authorId }: PostQuery) => authorId
+  ? { index: 'authorTimeline' as const, prefix: [authorId], toKey: (key: PostKey) => [authorId, ...key] }
+  : { index: 'timeline' as const, prefix: undefined, toKey: (key: PostKey) => key };
+
+const SUGGESTION_POST_WINDOW = 300;
+
+// How long a user who asked to delete their account can still change their mind
+export const ACCOUNT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Legacy plaintext accounts are upgraded to a salted hash once the password checks out
+const checkPassword = async (user: StoredUser, password: string): Promise<boolean> => {
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash);
+  if (user.password === undefined || user.password !== password) return false;
+  const { password: _plaintext, ...rest } = user;
+  await backend.put('users', { ...rest, passwordHash: await hashPassword(password) });
+  return true;
+};
+
+// Creates the account exactly as given (role included) and signs it in
+const createAccount = async (user: User, password: string): Promise<User> => {
+  await delay(800);
+  const [taken] = await backend.findBy('users', 'userId', user.userId);
+
+  if (taken) {
+    throw new Error('User ID already taken');
   }
+
+  const newUser: StoredUser = { ...user, id: `user-${Date.now()}`, passwordHash: await hashPassword(password) };
+  await backend.put('users', newUser);
+  await backend.setSession(newUser.id);
+
+  return toPublicUser(newUser);
 };
 
-const setStored = (key: string, data: any) => {
+export const countMutualFriends = (a: User, b: User) => a.friends.filter(id => b.friends.includes(id)).length;
+
+// Activity already recorded from this tab, so the heartbeat doesn't re-read it on every beat
+const recordedActivity = new Set<string>();
+
+// Counts the user as active today for the admin analytics. Like notify, a failure here must
+// never fail the login or heartbeat that triggered it.
+const recordActivity = async (userId: string) => {
+  const at = Date.now();
+  const day = dayKey(at);
+  const id = `${day}:${userId}`;
+  if (recordedActivity.has(id)) return;
+  recordedActivity.add(id);
   try {
-    localStorage.setItem(key, JSON.stringify(data));
-    // Dispatch storage event for cross-tab sync simulation
-    window.dispatchEvent(new Event('storage')); 
+    if (!(await backend.get('activity', id))) await backend.put('activity', { id, userId, day, at });
   } catch (e) {
-    console.error("Storage Quota Exceeded", e);
-    throw new Error("Storage full. Please delete some posts or images.");
+    recordedActivity.delete(id);
+    console.error('Failed to record activity', e);
   }
 };
 
-export const StorageService = {
-  // --- Authentication ---
+// --- MODERATION HELPERS ---
 
-  observeAuth: (callback: (user: User | null) => void) => {
-    // Check immediately
-    const session = getStored<string | null>(KEYS.SESSION, null);
-    if (session) {
-      const users = getStored<User[]>(KEYS.USERS, []);
-      const user = users.find(u => u.id === session) || null;
-      callback(user);
-    } else {
-      callback(null);
+export type ModerationResult = { success: boolean, message: string };
+
+// Privileged operations check the actor themselves rather than trusting the UI to hide the buttons
+const authorize = async (actorId: string, permission: Permission) => {
+  const actor = await backend.get('users', actorId);
+  return actor && can(actor, permission) ? actor : undefined;
+};
+
+const NOT_PERMITTED: ModerationResult = { success: false, message: "You don't have permission to do that." };
+
+// Why a moderator or admin acted, and the report that prompted it (if any)
+export interface ModerationContext {
+  reason?: string;
+  reportId?: string;
+}
+
+// The only writer of the audit log, and it only ever adds entries
+const audit = async (
+  actorId: string,
+  action: AuditAction,
+  target: AuditEntry['target'],
+  targetLabel: string,
+  { reason, reportId, details }: ModerationContext & Pick<AuditEntry, 'details'> = {}
+) => {
+  const createdAt = Date.now();
+  await backend.put('audit', {
+    id: `audit-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    actorId,
+    action,
+    target,
+    targetLabel,
+    ...(reason && { reason }),
+    ...(reportId && { reportId }),
+    ...(details && { details }),
+    createdAt
+  });
+};
+
+const sameTarget = (a: ReportTarget, b: ReportTarget) => a.type === b.type && a.id === b.id;
+
+// Acting on something closes every open report about it, whoever filed them
+const settleReports = async (actorId: string, target: ReportTarget, note?: string) => {
+  const open = (await backend.findBy('reports', 'status', 'open')).filter(r => sameTarget(r.target, target));
+  for (const r of open) {
+    await backend.update('reports', r.id, report => report.status === 'open'
+      ? { ...report, status: 'actioned', resolvedAt: Date.now(), resolvedBy: actorId, resolution: note }
+      : undefined);
+  }
+};
+
+const dropComment = (post: Post, commentId: string): Post => ({ ...post, comments: post.comments.filter(c => c.id !== commentId) });
+
+const userLabel = (user: User) => `${user.name} (@${user.userId})`;
+
+const roleName = (role: Role) => (role === 'admin' ? 'an admin' : `a ${ROLE_LABELS[role].toLowerCase()}`);
+
+const postLabel = (post: Post) => excerpt(post.content) || 'Post without text';
+
+// --- ARCHIVE HELPERS ---
+
+// Object URLs of local images change with every page load, so any two count as the same here;
+// key order doesn't matter either
+const comparable = (record: unknown) =>
+  JSON.stringify(mapStrings(record, s => (s.startsWith('blob:') ? 'blob:' : s)), (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map(k => [k, value[k]]))
+      : value);
+
+const recordLabel = <K extends CollectionName>(collection: K, record: Collections[K]): string => {
+  if (collection === 'users') return userLabel(record as StoredUser);
+  if (collection === 'posts') return postLabel(record as Post);
+  if (collection === 'messages') return excerpt((record as Message).content || '') || 'Message';
+  return record.id;
+};
+
+const MAX_AUDITED_CONFLICTS = 10;
+
+// Audit details for a backup: how many records of each collection it held
+const backupContents = (collections: BackupCollections, images: number) =>
+  [...BACKUP_COLLECTIONS.map(name => `${collections[name].length} ${name}`), `${images} images`].join(', ');
+
+// Sorts one collection of a backup into records to write and conflicts (see restoreBackup)
+const planRestore = async <K extends CollectionName>(collection: K, records: Collections[K][], actorId: string, mode: RestoreMode) => {
+  const writes: Collections[K][] = [];
+  const conflicts: RestoreConflict[] = [];
+  let unchanged = 0;
+  let replaced = 0;
+  const conflict = (record: Collections[K], reason: string, replace = false) => {
+    conflicts.push({ collection, id: record.id, label: recordLabel(collection, record), reason });
+    if (!replace) return;
+    writes.push(record);
+    replaced++;
+  };
+
+  for (const record of records) {
+    if (collection === 'users') {
+      const [holder] = await backend.findBy('users', 'userId', (record as StoredUser).userId);
+      if (holder && holder.id !== record.id) {
+        conflict(record, `User ID @${holder.userId} belongs to another account here`);
+        continue;
+      }
     }
+    const existing = await backend.get(collection, record.id);
+    if (!existing) writes.push(record);
+    else if (comparable(existing) === comparable(record)) unchanged++;
+    else if (collection === 'audit') conflict(record, 'Audit entries are never overwritten');
+    else if (collection === 'users' && record.id === actorId) conflict(record, 'Your own account is never overwritten');
+    else conflict(record, 'Differs from the stored version', mode === 'overwrite');
+  }
+  return { writes, conflicts, unchanged, replaced, added: writes.length - replaced };
+};
 
-    // Poll for changes (simulating real-time auth state)
-    const interval = setInterval(() => {
-       const currentSession = getStored<string | null>(KEYS.SESSION, null);
-       if (currentSession !== session) {
-          // Session changed, reload page logic handled by component or simple callback update
-          // For simplicity in this prototype, we just callback if user exists
-          const allUsers = getStored<User[]>(KEYS.USERS, []);
-          const u = allUsers.find(user => user.id === currentSession) || null;
-          callback(u);
-       }
-    }, 1000);
+export type AuthErrorCode = 'unknown_user' | 'wrong_password' | 'suspended';
+
+// How the first admin comes about: created with the first account on an empty install, or claimed
+// by signing in to an existing account on an install from before roles
+export type SetupMode = 'create' | 'claim';
+
+const setupMode = async (): Promise<SetupMode | null> => {
+  const users = await backend.list('users');
+  if (users.length === 0) return 'create';
+  return users.some(u => roleOf(u) === 'admin') ? null : 'claim';
+};
+
+export class AuthError extends Error {
+  constructor(public code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
 
-    return () => clearInterval(interval);
+export const StorageService = {
+  // --- Authentication ---
+
+  observeAuth: (callback: (user: User | null) => void) => {
+    // Fires on login/logout and whenever the signed-in user's record changes
+    return ChangeBus.watch(['session', 'users'], async () => {
+      const uid = await backend.getSession();
+      const user = uid ? await backend.get('users', uid) : undefined;
+      // Deleting or suspending the account ends any session that is already open
+      if (uid && (!user || isSuspended(user))) {
+        await backend.setSession(null);
+        return null;
+      }
+      return user ? toPublicUser(user) : null;
+    }, callback);
   },
 
   login: async (userId: string, password: string): Promise<User> => {
     await delay(500);
-    const users = getStored<User[]>(KEYS.USERS, []);
-    // Insecure password check for prototype
-    const user = users.find(u => u.userId === userId && u.password === password); // Note: Password field check usually removed in types, but assuming stored here for prototype
-    
-    // Fallback: since we didn't strictly store passwords in previous prompt's Types, 
-    // we might just check UserID for this prototype if password missing.
-    // However, let's try to find by userId.
-    const found = users.find(u => u.userId === userId);
-    
-    if (!found) throw new Error('User not found');
-    // Simulate password check (ignoring for prototype if not set)
-    
-    setStored(KEYS.SESSION, found.id);
-    return found;
+    const [found] = await backend.findBy('users', 'userId', userId);
+    if (!found) throw new AuthError('unknown_user', 'No account exists with that User ID');
+    // Past its grace period the account is gone, even if nothing has erased it yet
+    if (found.deletionScheduledFor && found.deletionScheduledFor <= Date.now()) {
+      await purgeUser(found.id);
+      throw new AuthError('unknown_user', 'No account exists with that User ID');
+    }
+
+    if (!(await checkPassword(found, password))) {
+      throw new AuthError('wrong_password', 'Incorrect password');
+    }
+
+    // Only after the password checks out, so the status isn't revealed to anyone guessing
+    if (found.suspension && isSuspended(found)) {
+      throw new AuthError('suspended', suspensionMessage(found.suspension));
+    }
+
+    await backend.setSession(found.id);
+    await recordActivity(found.id);
+    return toPublicUser(found);
   },
 
+  // Everyone signs up as a plain user; roles are granted afterwards by an admin (see setRole)
   signup: async (user: User, password: string): Promise<User> => {
-    await delay(800);
-    const users = getStored<User[]>(KEYS.USERS, []);
-    
-    if (users.find(u => u.userId === user.userId)) {
-      throw new Error('User ID already taken');
-    }
+    const { role: _role, isAdmin: _isAdmin, ...profile } = user;
+    return createAccount(profile, password);
+  },
+
+  // Null once an admin exists. Fires again whenever that changes, in every open tab.
+  observeSetup: (callback: (mode: SetupMode | null) => void) => {
+    return ChangeBus.watch(['users'], setupMode, callback);
+  },
 
-    const newUser = { ...user, id: `user-${Date.now()}`, password }; // Store password for login check
-    users.push(newUser);
-    setStored(KEYS.USERS, users);
-    setStored(KEYS.SESSION, newUser.id);
-    
-    return newUser;
+  // First-run bootstrap: signs up the initial admin. Only on an install with no accounts at all.
+  createInitialAdmin: async (user: User, password: string): Promise<User> => {
+    if ((await setupMode()) !== 'create') throw new Error('This install already has accounts. Log in instead.');
+    const { isAdmin: _isAdmin, ...profile } = user;
+    return createAccount({ ...profile, role: 'admin' }, password);
+  },
+
+  // An install from before roles has accounts but no admin: signing in to one of them makes it the admin
+  claimAdmin: async (userId: string, password: string): Promise<User> => {
+    if ((await setupMode()) !== 'claim') throw new Error('An admin account already exists.');
+    const user = await StorageService.login(userId, password);
+    const promoted = await backend.update('users', user.id, ({ isAdmin: _isAdmin, ...u }) => ({ ...u, role: 'admin' }));
+    if (!promoted) throw new Error('Account not found.');
+    await audit(user.id, 'change_role', { type: 'user', id: user.id },
+      `${userLabel(user)}: ${ROLE_LABELS[roleOf(user)]} → ${ROLE_LABELS.admin}`, { reason: 'First admin of an existing install' });
+    return toPublicUser(promoted);
   },
 
   logout: async () => {
-    localStorage.removeItem(KEYS.SESSION);
+    const uid = await backend.getSession();
+    // Other people see us go offline now rather than when the heartbeat times out
+    if (uid) {
+      await backend.update('users', uid, u =>
+        u.status === 'offline' ? undefined : { ...u, status: 'offline', lastSeen: Date.now() }
+      );
+    }
+    await backend.setSession(null);
     window.location.reload();
   },
 
+  // --- Account deletion ---
+
+  // Self-service: the password is asked again, and the account is only erased once
+  // ACCOUNT_DELETION_GRACE_MS has passed. Logging back in before then offers to cancel.
+  scheduleAccountDeletion: async (userId: string, password: string): Promise<{ success: boolean, message: string }> => {
+    const user = await backend.get('users', userId);
+    if (!user) return { success: false, message: 'Account not found.' };
+    if (!(await checkPassword(user, password))) return { success: false, message: 'Incorrect password.' };
+    const deletionScheduledFor = Date.now() + ACCOUNT_DELETION_GRACE_MS;
+    await backend.update('users', userId, u => ({ ...u, deletionScheduledFor }));
+    return { success: true, message: `Your account will be deleted on ${new Date(deletionScheduledFor).toLocaleDateString()}.` };
+  },
+
+  cancelAccountDeletion: async (userId: string) => {
+    await backend.update('users', userId, ({ deletionScheduledFor, ...u }) => (deletionScheduledFor ? u : undefined));
+  },
+
+  // Erases every account whose grace period is over. Run at startup; there is no server to do it.
+  runScheduledDeletions: async (): Promise<number> => {
+    const due = (await backend.list('users')).filter(u => u.deletionScheduledFor && u.deletionScheduledFor <= Date.now());
+    for (const user of due) {
+      await purgeUser(user.id);
+    }
+    return due.length;
+  },
+
+  // --- Presence (see services/presence.ts) ---
+
+  // Marks the user present from this tab. A no-op when another of their tabs beat recently,
+  // so several open tabs don't multiply the writes.
+  heartbeat: async (userId: string) => {
+    await recordActivity(userId);
+    await backend.update('users', userId, u => {
+      const status = statusForMode(u.presenceMode);
+      if (status === 'offline') return u.status === 'offline' ? undefined : { ...u, status };
+      if (u.status === status && u.lastSeen && Date.now() - u.lastSeen < HEARTBEAT_MS / 2) return undefined;
+      return { ...u, status, lastSeen: Date.now() };
+    });
+  },
+
+  // Runs for as long as the user has the app open in this tab
+  trackPresence: (userId: string) => {
+    const beat = () => {
+      StorageService.heartbeat(userId).catch(e => console.error('Presence heartbeat failed', e));
+    };
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') beat();
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  },
+
+  setPresenceMode: async (userId: string, mode: PresenceMode) => {
+    await backend.update('users', userId, u => ({ ...u, presenceMode: mode, status: statusForMode(mode), lastSeen: Date.now() }));
+  },
+
+  // Live status and last-seen time for a set of users
+  subscribeToPresence: (userIds: string[], callback: (presence: Record<string, UserPresence>) => void) => {
+    const ids = Array.from(new Set(userIds)).sort();
+    return ChangeBus.watch(['users'], async () => {
+        const users = await Promise.all(ids.map(id => backend.get('users', id)));
+        const presence: Record<string, UserPresence> = {};
+        users.forEach(u => {
+          if (u) presence[u.id] = { status: u.status, lastSeen: u.lastSeen };
+        });
+        return presence;
+    }, callback);
+  },
+
   // --- Users ---
 
   findUserByCustomId: async (customId: string): Promise<User | undefined> => {
     await delay(300);
-    const users = getStored<User[]>(KEYS.USERS, []);
-    return users.find(u => u.userId === customId);
+    const [found] = await backend.findBy('users', 'userId', customId);
+    return found && toPublicUser(found);
   },
 
   getUser: async (uid: string): Promise<User | undefined> => {
-    const users = getStored<User[]>(KEYS.USERS, []);
-    return users.find(u => u.id === uid);
+    const found = await backend.get('users', uid);
+    return found && toPublicUser(found);
   },
 
-  updateUser: async (updatedUser: User): Promise<boolean> => {
+  // Profile edits only, applied over the stored record: a stale copy can't undo role, suspension,
+  // friend or block changes made since, and nobody can grant themselves a role this way
+  updateUser: async (uid: string, changes: ProfileUpdate): Promise<User | undefined> => {
     try {
       await delay(400);
-      const users = getStored<User[]>(KEYS.USERS, []);
-      const index = users.findIndex(u => u.id === updatedUser.id);
-      if (index !== -1) {
-        users[index] = updatedUser;
-        setStored(KEYS.USERS, users);
-        return true;
-      }
-      return false;
+      const allowed = Object.fromEntries(
+        PROFILE_FIELDS.filter(field => changes[field] !== undefined).map(field => [field, changes[field]])
+      ) as ProfileUpdate;
+      const updated = await backend.update('users', uid, u => ({ ...u, ...allowed }));
+      return updated && toPublicUser(updated);
     } catch (e) {
       console.error(e);
-      return false;
+      return undefined;
     }
   },
 
+  // Full-text search over name, handle, User ID and bio (prefix and typo tolerant)
+  searchUsers: async (query: string, viewerId: string, limit = 20): Promise<UserSearchResult[]> => {
+    const [index, viewer, blocked] = await Promise.all([getUserIndex(), backend.get('users', viewerId), getBlockedIds(viewerId)]);
+    return searchUsers(index, query, limit + blocked.size).filter(({ user }) => !blocked.has(user.id)).slice(0, limit).map(({ user }) => ({
+      user,
+      mutualFriends: viewer ? countMutualFriends(viewer, user) : 0,
+      friendship: viewer ? getFriendshipStatus(viewer, user) : 'none'
+    }));
+  },
+
   checkIdAvailability: async (userId: string, currentUid?: string): Promise<boolean> => {
-    const users = getStored<User[]>(KEYS.USERS, []);
-    const found = users.find(u => u.userId === userId);
+    const [found] = await backend.findBy('users', 'userId', userId);
     if (!found) return true;
     if (currentUid && found.id === currentUid) return true;
     return false;
@@ -142,58 +664,175 @@ export const StorageService = {
 
   sendFriendRequest: async (fromId: string, toCustomId: string): Promise<{ success: boolean, message: string }> => {
     await delay(300);
-    const users = getStored<User[]>(KEYS.USERS, []);
-    const sender = users.find(u => u.id === fromId);
-    const target = users.find(u => u.userId === toCustomId);
+    const sender = await backend.get('users', fromId);
+    const [target] = await backend.findBy('users', 'userId', toCustomId);
 
     if (!sender || !target) return { success: false, message: 'User not found' };
     if (sender.id === target.id) return { success: false, message: "Can't add yourself" };
+    if (sender.blockedUsers?.includes(target.id)) return { success: false, message: 'Unblock this user first' };
+    if (target.blockedUsers?.includes(sender.id)) return { success: false, message: 'User not found' };
     if (sender.friends.includes(target.id)) return { success: false, message: 'Already friends' };
     if (target.friendRequests.includes(fromId)) return { success: false, message: 'Request already sent' };
+    // They already asked us: sending one back is accepting theirs
+    if (sender.friendRequests.includes(target.id)) {
+      return StorageService.acceptFriendRequest(fromId, target.id);
+    }
 
-    target.friendRequests.push(fromId);
-    
-    // Save
-    const targetIdx = users.findIndex(u => u.id === target.id);
-    users[targetIdx] = target;
-    setStored(KEYS.USERS, users);
+    await backend.update('users', target.id, u => ({ ...u, friendRequests: Array.from(new Set([...u.friendRequests, fromId])) }));
+    await notify(target.id, 'friend_request', { actorId: fromId });
 
     return { success: true, message: 'Request sent!' };
   },
 
-  acceptFriendRequest: async (userId: string, requesterId: string) => {
+  // Only answers a request that is actually pending: nobody becomes friends without asking
+  acceptFriendRequest: async (userId: string, requesterId: string): Promise<{ success: boolean, message: string }> => {
     await delay(300);
-    const users = getStored<User[]>(KEYS.USERS, []);
-    const userIdx = users.findIndex(u => u.id === userId);
-    const reqIdx = users.findIndex(u => u.id === requesterId);
-
-    if (userIdx === -1 || reqIdx === -1) return;
+    const requester = await backend.get('users', requesterId);
+    if (!requester) return { success: false, message: 'User not found' };
 
-    const user = users[userIdx];
-    const requester = users[reqIdx];
+    let accepted = false;
+    const user = await backend.update('users', userId, u => {
+      accepted = u.friendRequests.includes(requesterId);
+      return accepted ? {
+        ...u,
+        friends: Array.from(new Set([...u.friends, requesterId])),
+        friendRequests: u.friendRequests.filter(id => id !== requesterId)
+      } : undefined;
+    });
+    if (!user) return { success: false, message: 'User not found' };
+    if (!accepted) return { success: false, message: 'No pending request' };
+    await backend.update('users', requesterId, u =>
+      u.friends.includes(userId) ? undefined : { ...u, friends: [...u.friends, userId] }
+    );
+    await clearFriendRequestNotifications(userId, requesterId);
 
-    // Add to friends list
-    if (!user.friends.includes(requesterId)) user.friends.push(requesterId);
-    if (!requester.friends.includes(userId)) requester.friends.push(userId);
+    // Auto Message
+    const conversation = await StorageService.openDirectConversation(requesterId, userId);
+    await StorageService.sendMessage({
+        conversationId: conversation.id,
+        fromId: requesterId,
+        content: `You are now friends with ${requester.name}. Start chatting now!`
+    });
+    return { success: true, message: 'You are now friends!' };
+  },
 
-    // Remove request
-    user.friendRequests = user.friendRequests.filter(id => id !== requesterId);
+  declineFriendRequest: async (userId: string, requesterId: string): Promise<{ success: boolean, message: string }> => {
+    let declined = false;
+    await backend.update('users', userId, u => {
+      declined = u.friendRequests.includes(requesterId);
+      return declined ? { ...u, friendRequests: u.friendRequests.filter(id => id !== requesterId) } : undefined;
+    });
+    await clearFriendRequestNotifications(userId, requesterId);
+    return declined ? { success: true, message: 'Request declined' } : { success: false, message: 'No pending request' };
+  },
 
-    // Save users
-    users[userIdx] = user;
-    users[reqIdx] = requester;
-    setStored(KEYS.USERS, users);
+  // Withdraws a request we sent that hasn't been answered yet
+  cancelFriendRequest: async (fromId: string, targetId: string): Promise<{ success: boolean, message: string }> => {
+    let cancelled = false;
+    await backend.update('users', targetId, u => {
+      cancelled = u.friendRequests.includes(fromId);
+      return cancelled ? { ...u, friendRequests: u.friendRequests.filter(id => id !== fromId) } : undefined;
+    });
+    await clearFriendRequestNotifications(targetId, fromId);
+    return cancelled ? { success: true, message: 'Request cancelled' } : { success: false, message: 'No pending request' };
+  },
 
-    // Auto Message
-    const msg: Message = {
-        id: `sys-${Date.now()}`,
-        fromId: requesterId,
-        toId: userId,
-        content: `You are now friends with ${requester.name}. Start chatting now!`,
-        timestamp: Date.now(),
-        read: false
+  // Ends the friendship on both sides; the chat history stays
+  removeFriend: async (userId: string, friendId: string): Promise<{ success: boolean, message: string }> => {
+    let removed = false;
+    const unfriend = (otherId: string) => (u: StoredUser) => {
+      if (!u.friends.includes(otherId)) return undefined;
+      removed = true;
+      return { ...u, friends: u.friends.filter(id => id !== otherId) };
     };
-    await StorageService.sendMessage(msg);
+    await Promise.all([
+      backend.update('users', userId, unfriend(friendId)),
+      backend.update('users', friendId, unfriend(userId))
+    ]);
+    return removed ? { success: true, message: 'Removed from friends' } : { success: false, message: 'Not friends' };
+  },
+
+  // Also ends any friendship and pending requests between the two, both ways
+  blockUser: async (userId: string, targetId: string): Promise<{ success: boolean, message: string }> => {
+    if (userId === targetId) return { success: false, message: "Can't block yourself" };
+    const cut = (otherId: string, block: boolean) => (u: StoredUser): StoredUser => ({
+      ...u,
+      friends: u.friends.filter(id => id !== otherId),
+      friendRequests: u.friendRequests.filter(id => id !== otherId),
+      blockedUsers: block ? Array.from(new Set([...(u.blockedUsers || []), otherId])) : u.blockedUsers
+    });
+    const blocker = await backend.update('users', userId, cut(targetId, true));
+    await backend.update('users', targetId, cut(userId, false));
+    if (!blocker) return { success: false, message: 'User not found' };
+    await clearFriendRequestNotifications(userId, targetId);
+    await clearFriendRequestNotifications(targetId, userId);
+    return { success: true, message: 'User blocked' };
+  },
+
+  unblockUser: async (userId: string, targetId: string): Promise<{ success: boolean, message: string }> => {
+    let unblocked = false;
+    await backend.update('users', userId, u => {
+      unblocked = !!u.blockedUsers?.includes(targetId);
+      return unblocked ? { ...u, blockedUsers: u.blockedUsers!.filter(id => id !== targetId) } : undefined;
+    });
+    return unblocked ? { success: true, message: 'User unblocked' } : { success: false, message: 'User was not blocked' };
+  },
+
+  // People the user has asked to be friends with and who haven't answered yet
+  getSentFriendRequests: async (userId: string): Promise<User[]> => {
+    const users = await backend.findBy('users', 'requestedBy', userId);
+    return users.map(toPublicUser);
+  },
+
+  getBlockedUsers: async (userId: string): Promise<User[]> => {
+    const user = await backend.get('users', userId);
+    const blocked = await Promise.all((user?.blockedUsers || []).map(id => backend.get('users', id)));
+    return blocked.filter((u): u is StoredUser => !!u).map(toPublicUser);
+  },
+
+  // --- Suggestions ---
+
+  // "People you may know" (see services/suggestions.ts). Shared activity is read from the most
+  // recent SUGGESTION_POST_WINDOW posts only.
+  getFriendSuggestions: async (userId: string, limit = 5): Promise<FriendSuggestion[]> => {
+    const viewer = await backend.get('users', userId);
+    if (!viewer) return [];
+    const [friends, posts, blocked, sent] = await Promise.all([
+      Promise.all(viewer.friends.map(id => backend.get('users', id))),
+      backend.scan('posts', 'timeline', { direction: 'desc', limit: SUGGESTION_POST_WINDOW }),
+      getBlockedIds(userId),
+      backend.findBy('users', 'requestedBy', userId)
+    ]);
+    const friendUsers = friends.filter((u): u is StoredUser => !!u);
+    const excluded = new Set([
+      userId,
+      ...viewer.friends,
+      ...viewer.friendRequests,
+      ...sent.map(u => u.id),
+      ...blocked,
+      ...(viewer.dismissedSuggestions || [])
+    ]);
+
+    const ranked = rankSuggestions(viewer, friendUsers, posts.filter(p => isPostVisibleTo(p, userId)), excluded);
+    const suggestions: FriendSuggestion[] = [];
+    for (const candidate of ranked) {
+      if (suggestions.length >= limit) break;
+      const user = await backend.get('users', candidate.userId);
+      if (!user) continue;
+      suggestions.push({
+        user: toPublicUser(user),
+        mutualFriends: friendUsers.filter(f => candidate.mutualFriendIds.slice(0, 3).includes(f.id)).map(toPublicUser),
+        mutualFriendCount: candidate.mutualFriendIds.length,
+        sharedInteractions: candidate.sharedInteractions
+      });
+    }
+    return suggestions;
+  },
+
+  dismissSuggestion: async (userId: string, targetId: string) => {
+    await backend.update('users', userId, u =>
+      u.dismissedSuggestions?.includes(targetId) ? undefined : { ...u, dismissedSuggestions: [...(u.dismissedSuggestions || []), targetId] }
+    );
   },
 
   // --- Posts ---
@@ -201,9 +840,12 @@ export const StorageService = {
   createPost: async (post: Post): Promise<boolean> => {
     try {
       await delay(400);
-      const posts = getStored<Post[]>(KEYS.POSTS, []);
-      posts.unshift(post); // Add to top
-      setStored(KEYS.POSTS, posts);
+      // Creating never overwrites: likes, comments and edits go through the mutations below
+      if (await backend.get('posts', post.id)) {
+        console.warn(`Post ${post.id} already exists`);
+        return false;
+      }
+      await backend.put('posts', post);
       return true;
     } catch (e) {
       alert("Storage full! Cannot post.");
@@ -211,78 +853,783 @@ export const StorageService = {
     }
   },
 
-  subscribeToPosts: (callback: (posts: Post[]) => void) => {
-    // Initial load
-    const load = () => {
-        const posts = getStored<Post[]>(KEYS.POSTS, []);
-        // Sort desc
-        posts.sort((a, b) => b.createdAt - a.createdAt);
-        callback(posts);
+  // Newest-first page of posts, continuing after `cursor` (a previous page's nextCursor)
+  getPosts: async ({ cursor, limit = 10, ...query }: PostQuery & { cursor?: string | null, limit?: number } = {}): Promise<PostPage> => {
+    const { index, prefix, toKey } = timelineScan(query);
+    const start = cursor ? decodeCursor(cursor) : undefined;
+    let after = start && toKey(start);
+    const posts: Post[] = [];
+    const blocked = query.viewerId ? await getBlockedIds(query.viewerId) : new Set<string>();
+
+    // Private shares and blocked authors the viewer can't see are skipped, so keep reading until
+    // the page is full (plus one to learn whether there is more)
+    while (posts.length <= limit) {
+      const batch = await backend.scan('posts', index, { prefix, after, direction: 'desc', limit: limit + 1 });
+      posts.push(...hideBlocked(batch.filter(p => !query.viewerId || isPostVisibleTo(p, query.viewerId)), blocked));
+      if (batch.length <= limit) break;
+      const last = batch[batch.length - 1];
+      after = toKey([last.createdAt, last.id]);
+    }
+
+    const page = posts.slice(0, limit);
+    return {
+      posts: page,
+      nextCursor: page.length > 0 ? encodeCursor(page[page.length - 1]) : cursor || null,
+      hasMore: posts.length > limit
     };
-    load();
+  },
+
+  // Live view of every post from the newest down to and including `through` (a page cursor),
+  // so pages already on screen keep receiving edits, likes and deletions
+  subscribeToPostWindow: (query: PostQuery, through: string | null, callback: (posts: Post[]) => void) => {
+    const { index, prefix, toKey } = timelineScan(query);
+    const end = through ? decodeCursor(through) : undefined;
+    // 'users' too: blocking someone hides their posts straight away
+    return ChangeBus.watch(['posts', 'users'], async () => {
+        const posts = await backend.scan('posts', index, { prefix, through: end && toKey(end), direction: 'desc' });
+        if (!query.viewerId) return posts;
+        return hideBlocked(posts.filter(p => isPostVisibleTo(p, query.viewerId!)), await getBlockedIds(query.viewerId));
+    }, callback);
+  },
 
-    // Poll for updates
-    const interval = setInterval(load, 2000);
-    return () => clearInterval(interval);
+  // A single post, if it exists and the viewer may see it
+  getPost: async (postId: string, viewerId?: string): Promise<Post | undefined> => {
+    const post = await backend.get('posts', postId);
+    if (!post || !viewerId) return post;
+    return isPostVisibleTo(post, viewerId) ? hideBlocked([post], await getBlockedIds(viewerId))[0] : undefined;
   },
 
-  deletePost: async (postId: string) => {
-      const posts = getStored<Post[]>(KEYS.POSTS, []);
-      const newPosts = posts.filter(p => p.id !== postId);
-      setStored(KEYS.POSTS, newPosts);
+  countPosts: () => backend.count('posts'),
+
+  // Authors delete their own posts; anyone else goes through removePost, which checks their role
+  // and records the takedown
+  deletePost: async (actorId: string, postId: string): Promise<ModerationResult> => {
+      const post = await backend.get('posts', postId);
+      if (!post) return { success: false, message: 'Post not found.' };
+      if (post.authorId !== actorId) return StorageService.removePost(actorId, postId);
+      await backend.remove('posts', postId);
+      return { success: true, message: 'Post deleted.' };
+  },
+
+  // The mutations below re-read the stored post inside backend.update, so concurrent
+  // likes/comments from other tabs are applied on top of each other instead of overwritten.
+
+  toggleLike: async (postId: string, userId: string): Promise<Post | undefined> => {
+    let liked = false;
+    const post = await backend.update('posts', postId, p => {
+      liked = !p.likes.includes(userId);
+      const { [userId]: _likedAt, ...likedAt } = p.likedAt || {};
+      return liked
+        ? { ...p, likes: [...p.likes, userId], likedAt: { ...likedAt, [userId]: Date.now() } }
+        : { ...p, likes: p.likes.filter(id => id !== userId), likedAt };
+    });
+    if (post && liked) await notify(post.authorId, 'like', { actorId: userId, postId });
+    return post;
+  },
+
+  addComment: async (postId: string, comment: Comment): Promise<Post | undefined> => {
+    const post = await backend.update('posts', postId, p =>
+      p.comments.some(c => c.id === comment.id) ? undefined : { ...p, comments: [...p.comments, comment] }
+    );
+    if (post) {
+      await notify(post.authorId, 'comment', {
+        actorId: comment.authorId,
+        postId,
+        commentId: comment.id,
+        preview: excerpt(comment.content)
+      });
+    }
+    return post;
+  },
+
+  // By the comment's author or the post's; moderators use removeComment. Undefined when refused.
+  deleteComment: async (actorId: string, postId: string, commentId: string): Promise<Post | undefined> => {
+    let deleted = false;
+    const post = await backend.update('posts', postId, p => {
+      deleted = p.comments.some(c => c.id === commentId && (c.authorId === actorId || p.authorId === actorId));
+      return deleted ? dropComment(p, commentId) : undefined;
+    });
+    return deleted ? post : undefined;
+  },
+
+  // Edits the author-controlled fields; likes and comments are left to their own mutations.
+  // Only the author can edit; anyone else gets undefined.
+  updatePost: async (actorId: string, postId: string, changes: Partial<Pick<Post, 'content' | 'media' | 'targetUserIds'>>): Promise<Post | undefined> => {
+    let allowed = false;
+    const post = await backend.update('posts', postId, p => {
+      allowed = p.authorId === actorId;
+      return allowed ? { ...p, ...changes, id: p.id } : undefined;
+    });
+    return allowed ? post : undefined;
+  },
+
+  // --- Conversations ---
+
+  getConversation: async (conversationId: string): Promise<Conversation | undefined> => {
+    return backend.get('conversations', conversationId);
+  },
+
+  // The one-to-one conversation between two users, created on first use
+  openDirectConversation: async (userId: string, otherId: string): Promise<Conversation> => {
+    const id = directConversationId(userId, otherId);
+    const existing = await backend.get('conversations', id);
+    if (existing) return existing;
+    const now = Date.now();
+    const conversation: Conversation = {
+      id,
+      participantIds: Array.from(new Set([userId, otherId])),
+      isGroup: false,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now
+    };
+    await backend.put('conversations', conversation);
+    return conversation;
+  },
+
+  createGroupConversation: async (creatorId: string, memberIds: string[], title: string, avatar?: string): Promise<Conversation> => {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: `conv-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      participantIds: Array.from(new Set([creatorId, ...memberIds])),
+      isGroup: true,
+      title: title.trim() || undefined,
+      avatar,
+      createdBy: creatorId,
+      createdAt: now,
+      updatedAt: now
+    };
+    await backend.put('conversations', conversation);
+    await postSystemMessage(conversation.id, creatorId, `${await displayName(creatorId)} created the group`);
+    return conversation;
+  },
+
+  updateGroup: async (conversationId: string, actorId: string, changes: Partial<Pick<Conversation, 'title' | 'avatar'>>): Promise<Conversation | undefined> => {
+    const updated = await backend.update('conversations', conversationId, c =>
+      c.isGroup && c.participantIds.includes(actorId)
+        ? { ...c, ...changes, title: changes.title !== undefined ? changes.title.trim() || undefined : c.title, updatedAt: Date.now() }
+        : undefined
+    );
+    if (updated && changes.title !== undefined) {
+      await postSystemMessage(conversationId, actorId, `${await displayName(actorId)} renamed the group`);
+    }
+    return updated;
+  },
+
+  // Any member can add people; they must be the actor's friends
+  addGroupMembers: async (conversationId: string, actorId: string, memberIds: string[]): Promise<{ success: boolean, message: string }> => {
+    const actor = await backend.get('users', actorId);
+    const conversation = await backend.get('conversations', conversationId);
+    if (!actor || !conversation?.isGroup || !conversation.participantIds.includes(actorId)) {
+      return { success: false, message: 'You are not in this group.' };
+    }
+    const added = memberIds.filter(id => actor.friends.includes(id) && !conversation.participantIds.includes(id));
+    if (added.length === 0) return { success: false, message: 'Nobody new to add.' };
+
+    await backend.update('conversations', conversationId, c => ({
+      ...c,
+      participantIds: Array.from(new Set([...c.participantIds, ...added])),
+      updatedAt: Date.now()
+    }));
+    const names = await Promise.all(added.map(displayName));
+    await postSystemMessage(conversationId, actorId, `${actor.name} added ${names.join(', ')}`);
+    return { success: true, message: added.length === 1 ? 'Member added.' : `${added.length} members added.` };
+  },
+
+  // Only the group owner removes other people; everyone can remove themselves (see leaveGroup)
+  removeGroupMember: async (conversationId: string, actorId: string, memberId: string): Promise<{ success: boolean, message: string }> => {
+    const conversation = await backend.get('conversations', conversationId);
+    if (!conversation?.isGroup || !conversation.participantIds.includes(memberId)) {
+      return { success: false, message: 'Not a member of this group.' };
+    }
+    if (actorId !== memberId && conversation.createdBy !== actorId) {
+      return { success: false, message: 'Only the group owner can remove members.' };
+    }
+
+    await backend.update('conversations', conversationId, c => {
+      const participantIds = c.participantIds.filter(id => id !== memberId);
+      // Ownership passes to the longest-standing remaining member
+      const createdBy = c.createdBy === memberId ? participantIds[0] || c.createdBy : c.createdBy;
+      return { ...c, participantIds, createdBy, updatedAt: Date.now() };
+    });
+    await postSystemMessage(conversationId, actorId, actorId === memberId
+      ? `${await displayName(memberId)} left the group`
+      : `${await displayName(actorId)} removed ${await displayName(memberId)}`);
+    return { success: true, message: actorId === memberId ? 'You left the group.' : 'Member removed.' };
+  },
+
+  leaveGroup: async (conversationId: string, userId: string) => {
+    return StorageService.removeGroupMember(conversationId, userId, userId);
+  },
+
+  // Every conversation the user is in, most recently active first
+  subscribeToConversations: (userId: string, callback: (conversations: Conversation[]) => void) => {
+    return ChangeBus.watch(['conversations'], async () => {
+        const conversations = await backend.findBy('conversations', 'participant', userId);
+        return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+    }, callback);
   },
 
   // --- Messages ---
 
-  sendMessage: async (msg: Message) => {
-    const msgs = getStored<Message[]>(KEYS.MESSAGES, []);
-    // Auto-generate ID if missing
-    if(!msg.id) msg.id = `msg-${Date.now()}-${Math.random()}`;
-    msgs.push(msg);
-    setStored(KEYS.MESSAGES, msgs);
-  },
-
-  subscribeToMessages: (userId: string, friendId: string, callback: (msgs: Message[]) => void) => {
-    const load = () => {
-        const allMsgs = getStored<Message[]>(KEYS.MESSAGES, []);
-        const filtered = allMsgs.filter(m => 
-            (m.fromId === userId && m.toId === friendId) ||
-            (m.fromId === friendId && m.toId === userId)
-        );
-        filtered.sort((a, b) => a.timestamp - b.timestamp);
-        callback(filtered);
+  // Why the user can't post in the conversation right now, or undefined if they can
+  sendRefusal: async (conversationId: string, userId: string): Promise<string | undefined> => {
+    const conversation = await backend.get('conversations', conversationId);
+    return conversation ? refuseSend(conversation, userId) : 'This conversation no longer exists.';
+  },
+
+  // Undefined when the send is refused; sendRefusal says why
+  sendMessage: async (draft: MessageDraft): Promise<Message | undefined> => {
+    const conversation = await backend.get('conversations', draft.conversationId);
+    if (!conversation || (await refuseSend(conversation, draft.fromId, draft.system))) return undefined;
+    if (!draft.system) StorageService.setTyping(draft.conversationId, draft.fromId, false);
+
+    const { replyToId, ...fields } = draft;
+    const quoted = replyToId ? await backend.get('messages', replyToId) : undefined;
+    const replyTo: MessageQuote | undefined = quoted && quoted.conversationId === draft.conversationId && !quoted.deleted
+      ? { id: quoted.id, fromId: quoted.fromId, content: previewText(quoted) }
+      : undefined;
+
+    const timestamp = Date.now();
+    const msg: Message = {
+      ...fields,
+      ...(replyTo && { replyTo }),
+      id: `msg-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp,
+      read: conversation.participantIds.length === 1,
+      readBy: { [draft.fromId]: timestamp },
+      deliveredTo: { [draft.fromId]: timestamp }
     };
-    load();
-    const interval = setInterval(load, 1000);
-    return () => clearInterval(interval);
+    await backend.put('messages', msg);
+    // System notices move the thread up but don't count as unread
+    await backend.update('conversations', conversation.id, c => ({
+      ...c,
+      updatedAt: timestamp,
+      lastMessage: previewOf(msg),
+      unread: msg.system ? c.unread : Object.fromEntries(c.participantIds.map(uid => [
+        uid,
+        uid === msg.fromId ? unreadCount(c, uid) : unreadCount(c, uid) + 1
+      ]))
+    }));
+
+    if (!msg.system) {
+      await Promise.all(conversation.participantIds.map(uid => notify(uid, 'message', {
+        actorId: msg.fromId,
+        conversationId: conversation.id,
+        groupTitle: conversation.isGroup ? conversation.title || 'a group' : undefined,
+        messageId: msg.id,
+        preview: previewText(msg)
+      })));
+    }
+    return msg;
   },
 
-  // --- Storage (Images) ---
+  // The thread as the viewer sees it: without messages they deleted for themselves or that
+  // come from people they blocked (in groups they still share)
+  subscribeToMessages: (conversationId: string, viewerId: string, callback: (msgs: Message[]) => void) => {
+    return ChangeBus.watch(['messages', 'users', 'conversations'], async () => {
+        // Only members read the thread; someone removed from a group stops receiving it
+        const conversation = await backend.get('conversations', conversationId);
+        if (!conversation?.participantIds.includes(viewerId)) return [];
+        const [messages, viewer] = await Promise.all([
+          backend.findBy('messages', 'conversationId', conversationId),
+          backend.get('users', viewerId)
+        ]);
+        const blocked = new Set(viewer?.blockedUsers || []);
+        return messages
+          .filter(m => !m.deletedFor?.includes(viewerId) && (m.system || !blocked.has(m.fromId)))
+          .sort((a, b) => a.timestamp - b.timestamp);
+    }, callback);
+  },
+
+  // Only the sender edits, and not once it's been deleted for everyone. Undefined when refused
+  // or when the text is unchanged.
+  editMessage: async (messageId: string, userId: string, content: string): Promise<Message | undefined> => {
+    const text = content.trim();
+    if (!text) return undefined;
+    let edited = false;
+    const updated = await backend.update('messages', messageId, m => {
+      edited = m.fromId === userId && !m.system && !m.deleted && m.content !== text;
+      return edited ? { ...m, content: text, editedAt: Date.now() } : undefined;
+    });
+    if (!updated || !edited) return undefined;
+    await refreshLastMessage(updated);
+    return updated;
+  },
+
+  // 'me' hides it from the user's own view; 'everyone' (sender only) blanks it for the whole thread
+  deleteMessage: async (messageId: string, userId: string, scope: 'me' | 'everyone'): Promise<{ success: boolean, message: string }> => {
+    const msg = await backend.get('messages', messageId);
+    const conversation = msg && await backend.get('conversations', msg.conversationId);
+    if (!msg || !conversation?.participantIds.includes(userId)) {
+      return { success: false, message: 'Message not found.' };
+    }
+
+    if (scope === 'me') {
+      await backend.update('messages', messageId, m => ({ ...m, deletedFor: Array.from(new Set([...(m.deletedFor || []), userId])) }));
+      return { success: true, message: 'Message deleted for you.' };
+    }
+
+    if (msg.fromId !== userId || msg.system) {
+      return { success: false, message: 'You can only delete your own messages for everyone.' };
+    }
+    const updated = await backend.update('messages', messageId, blankMessage);
+    if (updated) await refreshLastMessage(updated);
+    return { success: true, message: 'Message deleted for everyone.' };
+  },
 
-  uploadImage: async (file: File, path: string): Promise<string> => {
-      // Convert to Base64 for LocalStorage
-      return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-             const result = reader.result as string;
-             // Simple compression check handled in Feed component usually, 
-             // but here we just pass through.
-             resolve(result); 
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(file);
+  // Picking the emoji you already reacted with takes the reaction back
+  toggleReaction: async (messageId: string, userId: string, emoji: string): Promise<Message | undefined> => {
+    const msg = await backend.get('messages', messageId);
+    const conversation = msg && await backend.get('conversations', msg.conversationId);
+    if (!msg || msg.deleted || msg.system || !conversation?.participantIds.includes(userId)) return undefined;
+
+    return backend.update('messages', messageId, m => {
+      const reactions = { ...m.reactions };
+      if (reactions[userId] === emoji) delete reactions[userId];
+      else reactions[userId] = emoji;
+      return { ...m, reactions };
+    });
+  },
+
+  // Called while the thread is open: stamps the user's read time on every message they hadn't
+  // seen, clears the thread's unread count and the message notifications that pointed at it
+  markConversationRead: async (conversationId: string, userId: string) => {
+    const conversation = await backend.get('conversations', conversationId);
+    if (!conversation?.participantIds.includes(userId)) return;
+
+    const now = Date.now();
+    const unseen = (await backend.findBy('messages', 'conversationId', conversationId)).filter(m => !m.readBy?.[userId]);
+    for (const m of unseen) {
+      await backend.update('messages', m.id, msg => {
+        const readBy = { ...msg.readBy, [userId]: now };
+        const deliveredTo = { ...msg.deliveredTo, [userId]: msg.deliveredTo?.[userId] || now };
+        return { ...msg, readBy, deliveredTo, read: conversation.participantIds.every(uid => readBy[uid]) };
       });
+    }
+    if (unreadCount(conversation, userId) > 0) {
+      await backend.update('conversations', conversationId, c => ({ ...c, unread: { ...c.unread, [userId]: 0 } }));
+    }
+
+    const notifications = (await backend.findBy('notifications', 'userId', userId))
+      .filter(n => n.type === 'message' && !n.read && n.data.conversationId === conversationId);
+    for (const n of notifications) {
+      await backend.put('notifications', { ...n, read: true });
+    }
+  },
+
+  // Runs for as long as the user has the app open: stamps delivery on every message that
+  // reaches them, whichever screen they're on. Unread conversations are the only candidates.
+  acknowledgeDeliveries: (userId: string) => {
+    return ChangeBus.watch(['conversations'], async () => {
+        const conversations = await backend.findBy('conversations', 'participant', userId);
+        return conversations.filter(c => unreadCount(c, userId) > 0).map(c => `${c.id}@${c.lastMessage?.id}`);
+    }, async () => {
+        const now = Date.now();
+        const conversations = await backend.findBy('conversations', 'participant', userId);
+        for (const c of conversations.filter(c => unreadCount(c, userId) > 0)) {
+          const pending = (await backend.findBy('messages', 'conversationId', c.id)).filter(m => !m.deliveredTo?.[userId]);
+          for (const m of pending) {
+            await backend.update('messages', m.id, msg => (msg.deliveredTo?.[userId] ? undefined : { ...msg, deliveredTo: { ...msg.deliveredTo, [userId]: now } }));
+          }
+        }
+    });
+  },
+
+  // Throttle calls to this from the keyboard: each one renews the signal for TYPING_TTL
+  setTyping: (conversationId: string, userId: string, isTyping: boolean) => {
+    const active = typing.get(conversationId)?.has(userId);
+    if (!isTyping && !active) return;
+    ChangeBus.emit('typing', conversationId, true, { userId, isTyping });
+  },
+
+  // Everyone but the viewer currently typing in the conversation
+  subscribeToTyping: (conversationId: string, viewerId: string, callback: (userIds: string[]) => void) => {
+    return ChangeBus.watch(['typing'], async () => {
+        return Array.from(typing.get(conversationId)?.keys() || []).filter(id => id !== viewerId).sort();
+    }, callback);
+  },
+
+  // Total unread messages across the user's conversations, for the Messenger badge
+  subscribeToUnreadMessageCount: (userId: string, callback: (count: number) => void) => {
+    return ChangeBus.watch(['conversations'], async () => {
+        const conversations = await backend.findBy('conversations', 'participant', userId);
+        return conversations.reduce((total, c) => total + unreadCount(c, userId), 0);
+    }, callback);
+  },
+
+  // --- Notifications ---
+
+  subscribeToNotifications: (userId: string, callback: (notifications: Notification[]) => void) => {
+    return ChangeBus.watch(['notifications'], async () => {
+        const notifications = await backend.findBy('notifications', 'userId', userId);
+        notifications.sort((a, b) => b.createdAt - a.createdAt);
+        return notifications;
+    }, callback);
+  },
+
+  markNotificationRead: async (notificationId: string) => {
+    const notification = await backend.get('notifications', notificationId);
+    if (notification && !notification.read) {
+      await backend.put('notifications', { ...notification, read: true });
+    }
+  },
+
+  markAllNotificationsRead: async (userId: string) => {
+    const unread = (await backend.findBy('notifications', 'userId', userId)).filter(n => !n.read);
+    for (const n of unread) {
+      await backend.put('notifications', { ...n, read: true });
+    }
+  },
+
+  // --- Storage (Images) ---
+
+  // Resizes, re-encodes and strips metadata (see services/images.ts), then stores the image and
+  // its thumbnail. Throws ImageError for files that are too large or can't be decoded.
+  uploadImage: async (file: File, path: string, kind: ImageKind = 'post', preset?: Partial<ImagePreset>): Promise<UploadedImage> => {
+      const { image, thumbnail } = await processImage(file, { ...IMAGE_PRESETS[kind], ...preset });
+      const base = path.replace(/\.[^./]+$/, '');
+      // Each backend decides how images are kept (data URL, server file, ...)
+      const [url, thumbnailUrl] = await Promise.all([
+          backend.uploadImage(image, base),
+          backend.uploadImage(thumbnail, `${base}_thumb`)
+      ]);
+      return { url, thumbnailUrl };
+  },
+
+  // One post attachment: images go through uploadImage, videos are stored as-is with a poster
+  // thumbnail. Alt text is left for the caller to fill in.
+  uploadMedia: async (file: File, path: string): Promise<Omit<MediaAttachment, 'alt'>> => {
+      const id = `media-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      if (mediaTypeOf(file) === 'image') {
+          const { url, thumbnailUrl } = await StorageService.uploadImage(file, path, 'post');
+          return { id, type: 'image', url, thumbnailUrl };
+      }
+      const { video, poster } = await processVideo(file);
+      const [url, thumbnailUrl] = await Promise.all([
+          backend.uploadImage(video, path),
+          backend.uploadImage(poster, `${path}_poster`)
+      ]);
+      return { id, type: 'video', url, thumbnailUrl };
+  },
+
+  // One chat attachment. Photos go through uploadImage; other files and voice notes are stored
+  // as given (see services/attachments.ts for the limits).
+  uploadAttachment: async (file: File, path: string, voice?: Pick<MessageAttachment, 'duration' | 'waveform'>): Promise<MessageAttachment> => {
+      const mimeType = file.type || 'application/octet-stream';
+      if (voice) {
+          return { type: 'voice', url: await backend.uploadImage(file, path), name: file.name, size: file.size, mimeType, ...voice };
+      }
+      if (isInlineImage(file)) {
+          const { url, thumbnailUrl } = await StorageService.uploadImage(file, path, 'post');
+          return { type: 'image', url, thumbnailUrl, name: file.name, size: file.size, mimeType };
+      }
+      checkFileSize(file);
+      return { type: 'file', url: await backend.uploadImage(file, path), name: file.name, size: file.size, mimeType };
+  },
+
+  // --- Reports ---
+
+  // Files a report for the admins' queue. The reporter must be able to see what they report.
+  reportContent: async (reporterId: string, target: ReportTarget, reason: ReportReason, details?: string): Promise<ModerationResult> => {
+    let owner: string | undefined;
+    let content: string | undefined;
+    if (target.type === 'user') {
+      const user = await backend.get('users', target.id);
+      owner = user?.id;
+      content = user && userLabel(user);
+    } else if (target.type === 'message') {
+      const msg = await backend.get('messages', target.id);
+      const conversation = msg && await backend.get('conversations', msg.conversationId);
+      if (msg && !msg.system && !msg.deleted && conversation?.participantIds.includes(reporterId)) {
+        owner = msg.fromId;
+        content = excerpt(previewText(msg));
+      }
+    } else {
+      const post = await StorageService.getPost(target.postId || target.id, reporterId);
+      if (target.type === 'post') {
+        owner = post?.authorId;
+        content = post && postLabel(post);
+      } else {
+        const comment = post?.comments.find(c => c.id === target.id);
+        owner = comment?.authorId;
+        content = comment && excerpt(comment.content);
+      }
+    }
+
+    if (!owner) return { success: false, message: 'That is no longer available.' };
+    if (owner === reporterId) return { success: false, message: "You can't report yourself." };
+    const open = await backend.findBy('reports', 'status', 'open');
+    if (open.some(r => r.reporterId === reporterId && sameTarget(r.target, target))) {
+      return { success: false, message: 'You already reported this. An admin will look at it soon.' };
+    }
+
+    const createdAt = Date.now();
+    await backend.put('reports', {
+      id: `report-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+      reporterId,
+      target,
+      targetOwnerId: owner,
+      excerpt: content,
+      reason,
+      ...(details?.trim() && { details: details.trim() }),
+      status: 'open',
+      createdAt
+    });
+    return { success: true, message: 'Thanks. An admin will review your report.' };
+  },
+
+  // The moderation queue, newest first. Empty for anyone who can't review reports.
+  subscribeToReports: (actorId: string, callback: (reports: Report[]) => void) => {
+    return ChangeBus.watch(['reports'], async () => {
+        if (!(await authorize(actorId, 'review_reports'))) return [];
+        const reports = await backend.list('reports');
+        return reports.sort((a, b) => b.createdAt - a.createdAt);
+    }, callback);
+  },
+
+  // Closes a report without (or after) acting on the content itself
+  resolveReport: async (actorId: string, reportId: string, status: Exclude<ReportStatus, 'open'>, note?: string): Promise<ModerationResult> => {
+    if (!(await authorize(actorId, 'review_reports'))) return NOT_PERMITTED;
+    let closed = false;
+    const resolved = await backend.update('reports', reportId, r => {
+      closed = r.status === 'open';
+      return closed ? { ...r, status, resolvedAt: Date.now(), resolvedBy: actorId, resolution: note?.trim() || undefined } : undefined;
+    });
+    if (!resolved) return { success: false, message: 'Report not found.' };
+    if (!closed) return { success: false, message: 'This report was already closed.' };
+    await audit(actorId, status === 'dismissed' ? 'dismiss_report' : 'resolve_report', { type: 'report', id: reportId },
+      resolved.excerpt || 'Report', { reason: note?.trim() || undefined, reportId });
+    return { success: true, message: status === 'dismissed' ? 'Report dismissed.' : 'Report resolved.' };
   },
 
   // --- Admin ---
-  
+  // Every action below is checked against the actor's role (see services/permissions.ts), closes
+  // the open reports about its target and is written to the audit log.
+
   getAllUsers: async (): Promise<User[]> => {
-      return getStored<User[]>(KEYS.USERS, []);
+      const users = await backend.list('users');
+      return users.map(toPublicUser);
+  },
+
+  deleteUser: async (actorId: string, uid: string, context?: ModerationContext): Promise<ModerationResult> => {
+      const actor = await authorize(actorId, 'delete_users');
+      if (!actor) return NOT_PERMITTED;
+      const user = await backend.get('users', uid);
+      if (!user) return { success: false, message: 'User not found.' };
+      if (!outranks(actor, user)) return { success: false, message: "You can't delete someone whose role is the same as or above yours." };
+      await purgeUser(uid);
+      await settleReports(actorId, { type: 'user', id: uid }, context?.reason);
+      await audit(actorId, 'delete_user', { type: 'user', id: uid }, userLabel(user), context);
+      return { success: true, message: 'User deleted.' };
+  },
+
+  // Moderator takedowns. Authors delete their own posts through deletePost.
+  removePost: async (actorId: string, postId: string, context?: ModerationContext): Promise<ModerationResult> => {
+      if (!(await authorize(actorId, 'moderate_content'))) return NOT_PERMITTED;
+      const post = await backend.get('posts', postId);
+      if (!post) return { success: false, message: 'Post not found.' };
+      await backend.remove('posts', postId);
+      await settleReports(actorId, { type: 'post', id: postId }, context?.reason);
+      await audit(actorId, 'delete_post', { type: 'post', id: postId }, postLabel(post), context);
+      return { success: true, message: 'Post deleted.' };
+  },
+
+  removeComment: async (actorId: string, postId: string, commentId: string, context?: ModerationContext): Promise<ModerationResult> => {
+      if (!(await authorize(actorId, 'moderate_content'))) return NOT_PERMITTED;
+      const comment = (await backend.get('posts', postId))?.comments.find(c => c.id === commentId);
+      if (!comment) return { success: false, message: 'Comment not found.' };
+      await backend.update('posts', postId, p => (p.comments.some(c => c.id === commentId) ? dropComment(p, commentId) : undefined));
+      const target: ReportTarget = { type: 'comment', id: commentId, postId };
+      await settleReports(actorId, target, context?.reason);
+      await audit(actorId, 'delete_comment', target, excerpt(comment.content), context);
+      return { success: true, message: 'Comment deleted.' };
+  },
+
+  // Blanks the message for everyone in the conversation, as its sender could
+  removeMessage: async (actorId: string, messageId: string, context?: ModerationContext): Promise<ModerationResult> => {
+      if (!(await authorize(actorId, 'moderate_content'))) return NOT_PERMITTED;
+      const msg = await backend.get('messages', messageId);
+      if (!msg || msg.deleted) return { success: false, message: 'Message not found.' };
+      const updated = await backend.update('messages', messageId, blankMessage);
+      if (updated) await refreshLastMessage(updated);
+      await settleReports(actorId, { type: 'message', id: messageId }, context?.reason);
+      await audit(actorId, 'delete_message', { type: 'message', id: messageId }, excerpt(previewText(msg)), context);
+      return { success: true, message: 'Message deleted.' };
+  },
+
+  // Hiding keeps the post (and its likes and comments) so it can be restored
+  setPostHidden: async (actorId: string, postId: string, hidden: boolean, context?: ModerationContext): Promise<ModerationResult> => {
+      if (!(await authorize(actorId, 'moderate_content'))) return NOT_PERMITTED;
+      let changed = false;
+      const post = await backend.update('posts', postId, ({ hiddenAt, hiddenReason, ...p }) => {
+        changed = !!hiddenAt !== hidden;
+        if (!changed) return undefined;
+        return hidden ? { ...p, hiddenAt: Date.now(), ...(context?.reason && { hiddenReason: context.reason }) } : p;
+      });
+      if (!post) return { success: false, message: 'Post not found.' };
+      if (!changed) return { success: false, message: hidden ? 'This post is already hidden.' : 'This post is not hidden.' };
+      if (hidden) await settleReports(actorId, { type: 'post', id: postId }, context?.reason);
+      await audit(actorId, hidden ? 'hide_post' : 'unhide_post', { type: 'post', id: postId }, postLabel(post), context);
+      return { success: true, message: hidden ? 'Post hidden.' : 'Post restored.' };
+  },
+
+  // `duration` in ms; without one the suspension never ends (a ban)
+  suspendUser: async (actorId: string, uid: string, duration: number | undefined, context: ModerationContext = {}): Promise<ModerationResult> => {
+      const actor = await authorize(actorId, 'suspend_users');
+      if (!actor) return NOT_PERMITTED;
+      const now = Date.now();
+      const user = await backend.update('users', uid, u => !outranks(actor, u) ? undefined : {
+        ...u,
+        suspension: { ...(duration !== undefined && { until: now + duration }), reason: context.reason || '', by: actorId, at: now },
+        status: 'offline'
+      });
+      if (!user) return { success: false, message: 'User not found.' };
+      if (!outranks(actor, user)) return { success: false, message: "You can't suspend someone whose role is the same as or above yours." };
+      await settleReports(actorId, { type: 'user', id: uid }, context.reason);
+      await audit(actorId, duration === undefined ? 'ban_user' : 'suspend_user', { type: 'user', id: uid }, userLabel(user), context);
+      return { success: true, message: duration === undefined ? 'User banned.' : 'User suspended.' };
+  },
+
+  liftSuspension: async (actorId: string, uid: string, context?: ModerationContext): Promise<ModerationResult> => {
+      const actor = await authorize(actorId, 'suspend_users');
+      if (!actor) return NOT_PERMITTED;
+      let lifted = false;
+      const user = await backend.update('users', uid, ({ suspension, ...u }) => {
+        lifted = !!suspension && outranks(actor, u);
+        return lifted ? u : undefined;
+      });
+      if (!user) return { success: false, message: 'User not found.' };
+      if (!outranks(actor, user)) return { success: false, message: "You can't lift a suspension on someone whose role is the same as or above yours." };
+      if (!lifted) return { success: false, message: 'User is not suspended.' };
+      await audit(actorId, 'lift_suspension', { type: 'user', id: uid }, userLabel(user), context);
+      return { success: true, message: 'Suspension lifted.' };
+  },
+
+  // Promotes or demotes. Nobody changes their own role, so there is always at least one admin left.
+  setRole: async (actorId: string, uid: string, role: Role, context?: ModerationContext): Promise<ModerationResult> => {
+      if (!(await authorize(actorId, 'manage_roles'))) return NOT_PERMITTED;
+      if (uid === actorId) return { success: false, message: "You can't change your own role." };
+      let previous: Role = 'user';
+      const user = await backend.update('users', uid, ({ role: current, isAdmin, ...u }) => {
+        previous = roleOf({ role: current, isAdmin });
+        return previous === role ? undefined : { ...u, ...(role !== 'user' && { role }) };
+      });
+      if (!user) return { success: false, message: 'User not found.' };
+      if (previous === role) return { success: false, message: `${user.name} is already ${roleName(role)}.` };
+      await audit(actorId, 'change_role', { type: 'user', id: uid },
+        `${userLabel(user)}: ${ROLE_LABELS[previous]} → ${ROLE_LABELS[role]}`, context);
+      return { success: true, message: `${user.name} is now ${roleName(role)}.` };
+  },
+
+  // The audit log, newest first. Empty for anyone who can't view it.
+  subscribeToAuditLog: (actorId: string, callback: (entries: AuditEntry[]) => void) => {
+    return ChangeBus.watch(['audit'], async () => {
+        if (!(await authorize(actorId, 'view_audit_log'))) return [];
+        return backend.scan('audit', 'createdAt', { direction: 'desc' });
+    }, callback);
+  },
+
+  // --- Archives (see services/archive.ts) ---
+
+  // Everything a user has put into NEOBOOK, for "Download my data"
+  exportMyData: async (userId: string): Promise<PersonalArchive | undefined> => {
+    const user = await backend.get('users', userId);
+    if (!user) return undefined;
+    const [posts, conversations] = await Promise.all([
+      backend.list('posts'),
+      backend.findBy('conversations', 'participant', userId)
+    ]);
+    const messages = (await Promise.all(conversations.map(c => backend.findBy('messages', 'conversationId', c.id))))
+      .flat()
+      .filter(m => !m.deletedFor?.includes(userId))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const archive: Omit<PersonalArchive, 'images'> = {
+      format: 'neobook-personal',
+      version: ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      profile: toPublicUser(user),
+      posts: posts.filter(p => p.authorId === userId),
+      comments: posts
+        .filter(p => p.authorId !== userId)
+        .flatMap(p => p.comments.filter(c => c.authorId === userId).map(c => ({ ...c, postId: p.id }))),
+      likedPostIds: posts.filter(p => p.likes.includes(userId)).map(p => p.id),
+      conversations,
+      messages
+    };
+    return { ...archive, images: await inlineImages(archive) };
+  },
+
+  // Every collection, credentials included. Undefined when the caller isn't allowed.
+  exportBackup: async (actorId: string): Promise<Backup | undefined> => {
+    if (!(await authorize(actorId, 'manage_backups'))) return undefined;
+    const lists = await Promise.all(BACKUP_COLLECTIONS.map(async name => [name, await backend.list(name)] as const));
+    const collections = Object.fromEntries(lists) as BackupCollections;
+    const backup: Backup = { format: 'neobook-backup', version: ARCHIVE_VERSION, exportedAt: Date.now(), collections, images: await inlineImages(collections) };
+    // It holds every password hash, so who took one matters
+    await audit(actorId, 'export_backup', { type: 'backup', id: String(backup.exportedAt) }, 'Full backup',
+      { details: backupContents(collections, Object.keys(backup.images).length) });
+    return backup;
+  },
+
+  // Adds the records that are missing here. Records that differ from the stored ones are conflicts:
+  // kept as stored unless `mode` is 'overwrite', and audit entries, the restoring admin's own account
+  // and accounts whose User ID is taken by someone else are always kept. `dryRun` only reports.
+  restoreBackup: async (actorId: string, backup: Backup, mode: RestoreMode, dryRun = false): Promise<RestoreReport> => {
+    const report: RestoreReport = { success: false, message: '', added: 0, replaced: 0, unchanged: 0, skipped: 0, conflicts: [] };
+    if (!(await authorize(actorId, 'manage_backups'))) return { ...report, ...NOT_PERMITTED };
+
+    const plans: { name: CollectionName; writes: Collections[CollectionName][] }[] = [];
+    for (const name of BACKUP_COLLECTIONS) {
+      const plan = await planRestore(name, backup.collections[name], actorId, mode);
+      plans.push({ name, writes: plan.writes });
+      report.conflicts.push(...plan.conflicts);
+      report.added += plan.added;
+      report.replaced += plan.replaced;
+      report.unchanged += plan.unchanged;
+    }
+    report.skipped = report.conflicts.length - report.replaced;
+
+    if (!dryRun) {
+      // Inlined images are uploaded again, and the records pointed at the new copies
+      const urls = new Map<string, string>();
+      const used = imagesUsedBy(plans.map(p => p.writes), backup.images);
+      for (const [i, url] of used.entries()) {
+        urls.set(url, await backend.uploadImage(dataUrlToBlob(backup.images[url]), `restore/${backup.exportedAt}-${i}`));
+      }
+      for (const { name, writes } of plans) {
+        for (const record of writes) await backend.put(name, mapStrings(record, s => urls.get(s) ?? s));
+      }
+    }
+
+    const summary = `${report.added} added, ${report.replaced} replaced, ${report.unchanged} unchanged, ${report.skipped} skipped.`;
+    if (!dryRun) {
+      const listed = report.conflicts.slice(0, MAX_AUDITED_CONFLICTS).map(c => `${c.collection} ${c.label}: ${c.reason}`);
+      const more = report.conflicts.length - listed.length;
+      await audit(actorId, 'restore_backup', { type: 'backup', id: String(backup.exportedAt) },
+        `Backup from ${new Date(backup.exportedAt).toLocaleString()}`, {
+          details: [`${mode === 'overwrite' ? 'Overwrite' : 'Keep stored'} mode. ${summary}`, ...listed, ...(more > 0 ? [`…and ${more} more conflicts.`] : [])].join(' ')
+        });
+    }
+    return { ...report, success: true, message: dryRun ? `Ready to restore: ${summary}` : `Backup restored: ${summary}` };
   },
 
-  deleteUser: async (uid: string) => {
-      let users = getStored<User[]>(KEYS.USERS, []);
-      users = users.filter(u => u.id !== uid);
-      setStored(KEYS.USERS, users);
+  // --- Analytics (see services/analytics.ts) ---
+
+  // Daily stats for the admin dashboard. Undefined when the caller isn't an admin.
+  getAnalytics: async (actorId: string, range: AnalyticsRange): Promise<AnalyticsReport | undefined> => {
+    if (!(await authorize(actorId, 'view_analytics'))) return undefined;
+    const [users, posts, messages, activity] = await Promise.all([
+      backend.list('users'),
+      // Comments and likes are stored on their posts, which may be older than the range
+      backend.list('posts'),
+      backend.scan('messages', 'timestamp', {
+        direction: 'asc',
+        after: dayStart(range.from) - 1,
+        through: dayStart(addDays(range.to, 1)) - 1
+      }),
+      backend.scan('activity', 'day', { direction: 'asc', after: addDays(range.from, -1), through: range.to })
+    ]);
+    return computeAnalytics(range, { users: users.map(toPublicUser), posts, messages, activity });
   }
 };
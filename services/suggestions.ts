@@ -0,0 +1,65 @@
+import { User, Post } from '../types';
+
+// --- FRIEND SUGGESTIONS ---
+// Ranks people the viewer isn't connected with by friends they share (the friends-of-friends
+// graph) and by activity on the same posts. A mutual friend is worth a few shared posts, and
+// shared posts are capped so one busy thread can't outrank real mutual connections.
+
+const WEIGHTS = {
+  mutualFriend: 3,
+  sharedInteraction: 1
+};
+
+const MAX_SHARED_INTERACTIONS = 10;
+
+export interface SuggestionScore {
+  userId: string;
+  mutualFriendIds: string[];
+  sharedInteractions: number;
+  score: number;
+}
+
+// Everyone who took part in a post: its author, likers and commenters
+const participantsOf = (post: Post) =>
+  new Set([post.authorId, ...post.likes, ...post.comments.map(c => c.authorId)]);
+
+export const rankSuggestions = (
+  viewer: User,
+  friends: User[], // The viewer's friends, with their own friend lists
+  posts: Post[], // Recent posts the viewer may see
+  excluded: Set<string> // Friends, pending requests, blocks, dismissals and the viewer
+): SuggestionScore[] => {
+  const mutual = new Map<string, string[]>();
+  friends.forEach(friend => {
+    friend.friends.forEach(id => {
+      if (!excluded.has(id)) mutual.set(id, [...(mutual.get(id) || []), friend.id]);
+    });
+  });
+
+  const shared = new Map<string, number>();
+  posts.forEach(post => {
+    const participants = participantsOf(post);
+    if (!participants.has(viewer.id)) return;
+    participants.forEach(id => {
+      if (!excluded.has(id)) shared.set(id, (shared.get(id) || 0) + 1);
+    });
+  });
+
+  return Array.from(new Set([...mutual.keys(), ...shared.keys()]))
+    .map(userId => {
+      const mutualFriendIds = mutual.get(userId) || [];
+      const sharedInteractions = shared.get(userId) || 0;
+      return {
+        userId,
+        mutualFriendIds,
+        sharedInteractions,
+        score: mutualFriendIds.length * WEIGHTS.mutualFriend +
+          Math.min(sharedInteractions, MAX_SHARED_INTERACTIONS) * WEIGHTS.sharedInteraction
+      };
+    })
+    .sort((a, b) =>
+      b.score - a.score ||
+      b.mutualFriendIds.length - a.mutualFriendIds.length ||
+      a.userId.localeCompare(b.userId)
+    );
+};
@@ -2,29 +2,87 @@ export interface User {
   id: string;
   userId: string; // Custom ID (e.g., "NeoKing77")
   username: string; // Display name or handle
-  password?: string; // Stored for prototype simplicity (insecure in real app)
   name: string;
   email?: string;
   avatar: string;
+  avatarThumbnail?: string; // Small variant for lists (see services/images.ts)
   coverPhoto: string;
   bio: string;
   joinedAt: number;
   friends: string[]; // Array of User UUIDs
   friendRequests: string[]; // Array of User UUIDs (incoming)
-  isAdmin?: boolean;
-  status: 'online' | 'offline' | 'busy';
+  blockedUsers?: string[]; // User UUIDs this user has blocked
+  dismissedSuggestions?: string[]; // User UUIDs hidden from their "People you may know"
+  role?: Role; // Missing means 'user'; read it through roleOf (services/permissions.ts)
+  isAdmin?: boolean; // Legacy flag from before roles, read as 'admin'
+  status: PresenceStatus; // Written by the user's own tabs; read it through presenceOf (services/presence.ts)
+  lastSeen?: number; // Last heartbeat from any of their open tabs
+  presenceMode?: PresenceMode; // Chosen by the user; defaults to 'auto'
+  suspension?: Suspension; // Set by an admin; login is refused while it lasts (see isSuspended)
+  deletionScheduledFor?: number; // Asked to delete their account: it is erased at this time unless they cancel
+}
+
+export type Role = 'user' | 'moderator' | 'admin';
+
+export type PresenceStatus = 'online' | 'offline' | 'busy';
+
+// 'auto' is online while a tab is open; 'invisible' appears offline to everyone else
+export type PresenceMode = 'auto' | 'busy' | 'invisible';
+
+export type UserPresence = Pick<User, 'status' | 'lastSeen'>;
+
+// The only fields a user edits on their own profile (see StorageService.updateUser)
+export type ProfileUpdate = Partial<Pick<User, 'name' | 'userId' | 'bio' | 'email' | 'avatar' | 'avatarThumbnail' | 'coverPhoto'>>;
+
+// How `target` relates to the viewing user
+export type FriendshipStatus = 'self' | 'friend' | 'sent' | 'received' | 'blocked' | 'none';
+
+export interface UserSearchResult {
+  user: User;
+  mutualFriends: number;
+  friendship: FriendshipStatus;
+}
+
+// An entry in "People you may know" (see services/suggestions.ts)
+export interface FriendSuggestion {
+  user: User;
+  mutualFriends: User[]; // The first few, for display
+  mutualFriendCount: number;
+  sharedInteractions: number; // Posts you have both liked, commented on or written
+}
+
+// One page of posts, newest first. `nextCursor` continues after the last post in `posts`
+export interface PostPage {
+  posts: Post[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type MediaType = 'image' | 'video';
+
+export interface MediaAttachment {
+  id: string;
+  type: MediaType;
+  url: string;
+  thumbnailUrl?: string; // Downscaled image, or a video's poster frame
+  alt: string;
 }
 
 export interface Post {
   id: string;
   authorId: string;
   content: string;
-  image?: string;
+  media?: MediaAttachment[]; // In display order
+  image?: string; // Legacy single image, from before `media` (read both through getPostMedia)
+  imageThumbnail?: string;
   likes: string[]; // User UUIDs
+  likedAt?: Record<string, number>; // User UUID -> when they liked it (missing for older likes)
   comments: Comment[];
   createdAt: number;
   sharedFromId?: string; // ID of the original post if this is a share
   targetUserIds?: string[]; // If present, only visible to these users (and author)
+  hiddenAt?: number; // Hidden by an admin: nobody but the author sees it, and they see it marked
+  hiddenReason?: string;
 }
 
 export interface Comment {
@@ -34,22 +92,165 @@ export interface Comment {
   createdAt: number;
 }
 
+// A message thread. One-to-one chats are two-member conversations (see directConversationId).
+export interface Conversation {
+  id: string;
+  participantIds: string[]; // Current members (User UUIDs)
+  isGroup: boolean;
+  title?: string; // Groups only; direct chats are named after the other person
+  avatar?: string;
+  createdBy: string; // Group owner: the only member who can remove others
+  createdAt: number;
+  updatedAt: number; // Last activity: a message or a membership change
+  // Summary kept up to date by sendMessage / markConversationRead, so the conversation list
+  // never has to read the messages themselves
+  lastMessage?: MessagePreview;
+  unread?: Record<string, number>; // Member UUID -> messages they haven't read yet
+}
+
+export interface MessagePreview {
+  id: string;
+  fromId: string;
+  content: string; // Excerpt
+  timestamp: number;
+  system?: boolean;
+}
+
 export interface Message {
   id: string;
+  conversationId: string;
   fromId: string;
-  toId: string;
+  toId?: string; // Legacy one-to-one recipient, from before conversations
   content: string;
   timestamp: number;
-  read: boolean;
+  read: boolean; // Read by every other participant
+  readBy: Record<string, number>; // User UUID -> when they read it (the sender counts as having read it)
+  deliveredTo?: Record<string, number>; // User UUID -> when it reached one of their open tabs (absent on older messages)
+  system?: boolean; // Membership notice ("Ann added Bob"), shown centered without a sender
+  editedAt?: number;
+  deleted?: boolean; // Deleted for everyone: content and reactions are cleared
+  deletedFor?: string[]; // User UUIDs who deleted it for themselves only
+  replyTo?: MessageQuote;
+  reactions?: Record<string, string>; // User UUID -> emoji (one reaction per person)
+  attachment?: MessageAttachment; // `content` is then an optional caption
+}
+
+export type MessageAttachmentType = 'image' | 'file' | 'voice';
+
+export interface MessageAttachment {
+  type: MessageAttachmentType;
+  url: string;
+  name: string;
+  size: number; // Bytes of the file as picked
+  mimeType: string;
+  thumbnailUrl?: string; // Images
+  duration?: number; // Voice notes, in seconds
+  waveform?: number[]; // Voice notes: peak level per bar, 0..1
+}
+
+// The message being replied to, as it read when the reply was sent
+export interface MessageQuote {
+  id: string;
+  fromId: string;
+  content: string; // Excerpt
+}
+
+// Shown on the sender's own bubbles
+export type MessageReceipt = 'sent' | 'delivered' | 'read';
+
+// What a sender supplies; id, timestamp and read state are filled in by sendMessage
+export type MessageDraft = Pick<Message, 'conversationId' | 'fromId' | 'content'> & Partial<Pick<Message, 'system' | 'attachment'>> & {
+  replyToId?: string;
+};
+
+export type NotificationType = 'friend_request' | 'like' | 'comment' | 'message';
+
+export interface NotificationData {
+  actorId: string; // User UUID who triggered it
+  postId?: string; // like / comment
+  commentId?: string; // comment
+  messageId?: string; // message (latest one when collapsed)
+  conversationId?: string; // message
+  groupTitle?: string; // message, in a group conversation
+  preview?: string; // Short text excerpt (comment / message content)
+  count?: number; // Collapsed unread messages from the same sender
 }
 
 export interface Notification {
   id: string;
-  userId: string;
-  type: 'friend_request' | 'like' | 'comment' | 'message';
-  data: any;
+  userId: string; // Recipient UUID
+  type: NotificationType;
+  data: NotificationData;
   read: boolean;
   createdAt: number;
 }
 
-export type ViewState = 'login' | 'signup' | 'feed' | 'friends' | 'messages' | 'profile' | 'admin';
\ No newline at end of file
+// --- Moderation (see services/moderation.ts) ---
+
+export type ReportTargetType = 'post' | 'comment' | 'user' | 'message';
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'nudity' | 'misinformation' | 'other';
+
+// 'actioned' when an admin acted on it, 'dismissed' when they found nothing wrong
+export type ReportStatus = 'open' | 'actioned' | 'dismissed';
+
+// What a report points at. Comments are addressed through their post.
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string; // Post, comment, user or message id
+  postId?: string; // comment
+}
+
+export interface Report {
+  id: string;
+  reporterId: string;
+  target: ReportTarget;
+  targetOwnerId: string; // Author of the reported content, or the reported user
+  excerpt?: string; // The content as it read when reported
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  createdAt: number;
+  resolvedAt?: number;
+  resolvedBy?: string; // Admin UUID
+  resolution?: string; // Admin's note
+}
+
+// A suspension without an end is a ban
+export interface Suspension {
+  until?: number;
+  reason: string;
+  by: string; // Admin UUID
+  at: number;
+}
+
+export type AuditAction =
+  | 'delete_user' | 'delete_post' | 'delete_comment' | 'delete_message'
+  | 'hide_post' | 'unhide_post'
+  | 'suspend_user' | 'ban_user' | 'lift_suspension'
+  | 'resolve_report' | 'dismiss_report'
+  | 'change_role'
+  | 'export_backup' | 'restore_backup';
+
+// One moderator or admin action. Entries are only ever appended, never edited or removed.
+export interface AuditEntry {
+  id: string;
+  actorId: string; // UUID of the moderator or admin
+  action: AuditAction;
+  target: ReportTarget | { type: 'report' | 'backup'; id: string };
+  targetLabel: string; // Name or excerpt at the time, since the target may be gone later
+  reason?: string;
+  details?: string; // What a backup or restore covered
+  reportId?: string; // The report this acted on
+  createdAt: number;
+}
+
+// Marks a user as active on a calendar day, for the admin analytics. One record per user per day.
+export interface DailyActivity {
+  id: string; // `${day}:${userId}`
+  userId: string;
+  day: string; // Local date, YYYY-MM-DD (see dayKey)
+  at: number; // First activity that day
+}
+
+export type ViewState = 'login' | 'signup' | 'feed' | 'friends' | 'messages' | 'notifications' | 'profile' | 'admin';
\ No newline at end of file
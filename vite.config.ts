@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // REST backend: forward to the bundled data server (npm run server)
+          '/api': env.NEOBOOK_SERVER_URL || 'http://localhost:3001',
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.NEOBOOK_BACKEND': JSON.stringify(env.NEOBOOK_BACKEND || 'indexeddb'),
+        'process.env.NEOBOOK_API_URL': JSON.stringify(env.NEOBOOK_API_URL || '/api')
       },
       resolve: {
         alias: {